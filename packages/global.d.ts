@@ -0,0 +1,2 @@
+// 开发环境的标记，打包的时候替换成 true / false，生产环境下 if (__DEV__) 里的代码会被删掉
+declare var __DEV__: boolean
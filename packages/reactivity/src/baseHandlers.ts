@@ -1,14 +1,98 @@
-import { hasChange, isObject } from '@vue/shared'
-import { track, trigger } from './dep'
-import { isRef } from './ref'
-import { reactive } from './reactive'
+import { hasChange, hasOwn, isArray, isIntegerKey, isObject } from '@vue/shared'
+import {
+  ITERATE_KEY,
+  track,
+  TrackOpTypes,
+  trigger,
+  TriggerOpTypes,
+} from './dep'
+import { isRef, ReactiveFlags } from './ref'
+import { reactive, readonly, toRaw } from './reactive'
+import { pauseTracking, resetTracking } from './effect'
 
-export const mutableHandlers = {
-  get(target, key, receiver) {
-    // 收集依赖：绑定 target 的属性与 effect 的关系
-    track(target, key)
+/**
+ * 重写数组的一些方法
+ */
+const arrayInstrumentations = createArrayInstrumentations()
+
+function createArrayInstrumentations() {
+  const instrumentations = {}
+
+  /**
+   * 查找类的方法
+   * 数组里的对象通过代理访问的时候会被转成响应式对象，拿原始对象去找是找不到的
+   * 所以先用代理对象找一遍（顺便收集依赖），找不到再用原始值找一遍
+   */
+  ;['includes', 'indexOf', 'lastIndexOf'].forEach(key => {
+    instrumentations[key] = function (...args) {
+      const res = Array.prototype[key].apply(this, args)
+      if (res === -1 || res === false) {
+        // 参数可能也是代理对象，也要转成原始对象
+        return Array.prototype[key].apply(toRaw(this), args.map(toRaw))
+      }
+      return res
+    }
+  })
+
+  /**
+   * 会修改长度的方法
+   * 这些方法执行的时候会读取 length，又会修改 length
+   * 两个 effect 都 push 同一个数组的话，会互相触发，死循环
+   * 所以执行期间暂停依赖收集，只触发不收集
+   */
+  ;['push', 'pop', 'shift', 'unshift', 'splice'].forEach(key => {
+    instrumentations[key] = function (...args) {
+      pauseTracking()
+      try {
+        return Array.prototype[key].apply(this, args)
+      } finally {
+        resetTracking()
+      }
+    }
+  })
+
+  return instrumentations
+}
+
+/**
+ * 创建 get 处理器
+ * @param isReadonly 是否是只读的，只读的不能修改，所以也不用收集依赖
+ * @param shallow 是否是浅层的，浅层的不解包 ref，也不把嵌套对象转成响应式
+ */
+function createGetter(isReadonly = false, shallow = false) {
+  return function get(target, key, receiver) {
+    // 通过这几个标记判断代理对象的类型，isReactive isReadonly 这些就是读的它们
+    if (key === ReactiveFlags.IS_REACTIVE) {
+      return !isReadonly
+    } else if (key === ReactiveFlags.IS_READONLY) {
+      return isReadonly
+    } else if (key === ReactiveFlags.IS_SHALLOW) {
+      return shallow
+    } else if (key === ReactiveFlags.RAW) {
+      // 通过代理对象拿原始对象
+      return target
+    }
+
+    if (
+      !isReadonly &&
+      Array.isArray(target) &&
+      hasOwn(arrayInstrumentations, key)
+    ) {
+      // 数组的方法，返回重写过的
+      return Reflect.get(arrayInstrumentations, key, receiver)
+    }
+
+    if (!isReadonly) {
+      // 收集依赖：绑定 target 的属性与 effect 的关系
+      track(target, TrackOpTypes.GET, key)
+    }
     const res = Reflect.get(target, key, receiver)
 
+    if (shallow) {
+      // 浅层的，只有第一层是响应式的，原样返回
+      return res
+    }
+
     // S情况五1：将包含 ref 的 Reactive 对象解构并保持同步
     if (isRef(res)) {
       // ref 传入 reactive 后，当 reactive 更新同名字段时，ref.value 也要同步更新
@@ -17,12 +101,19 @@ export const mutableHandlers = {
 
     // S情况六：初始化嵌套 Reactive 对象
     if (isObject(res)) {
-      // 如果 res 是对象，则将其转为响应式对象（惰性转换）
-      return reactive(res)
+      // 如果 res 是对象，则将其转为响应式对象（惰性转换），只读的嵌套对象也是只读的
+      return isReadonly ? readonly(res) : reactive(res)
     }
     return res
-  },
-  set(target, key, newValue, receiver) {
+  }
+}
+
+/**
+ * 创建 set 处理器
+ * @param shallow 是否是浅层的，浅层的不会把值同步到原来的 ref 上，直接替换
+ */
+function createSetter(shallow = false) {
+  return function set(target, key, newValue, receiver) {
     // S情况三：Reactive 对象重复赋相同数值
     const oldValue = target[key]
 
@@ -37,17 +128,26 @@ export const mutableHandlers = {
      * 当执行 target.a = 1 时，本质上是 a.value = 1
      */
     // todo 还有疑问，这里
-    if (isRef(oldValue) && !isRef(newValue)) {
+    if (!shallow && isRef(oldValue) && !isRef(newValue)) {
       oldValue.value = newValue
       // 更新了 ref 的值，ref那边已经触发了依赖effect更新，reactive这里不用再触发
       // 直接返回，避免下方 trigger 再触发一次（双重触发）
       return true
     }
 
+    // 设置之前先看一下 key 存不存在，不存在就是新增属性
+    const hadKey =
+      targetIsArray && isIntegerKey(key)
+        ? Number(key) < oldLength
+        : hasOwn(target, key)
+
     const res = Reflect.set(target, key, newValue, receiver)
-    if (hasChange(newValue, oldValue)) {
+    if (!hadKey) {
+      // 新增属性，除了 key 本身，遍历的依赖也要通知
+      trigger(target, TriggerOpTypes.ADD, key, newValue)
+    } else if (hasChange(newValue, oldValue)) {
       // 仅当值确实变化时才触发更新
-      trigger(target, key)
+      trigger(target, TriggerOpTypes.SET, key, newValue, oldValue)
     }
 
     const newLength = targetIsArray ? target.length : 0
@@ -56,8 +156,76 @@ export const mutableHandlers = {
       /**
        * 如果更新之前和更新之后，length 不一样，代表隐式更新了，手动触发
        */
-      trigger(target, 'length')
+      trigger(target, TriggerOpTypes.SET, 'length', newLength, oldLength)
     }
     return res
+  }
+}
+
+/**
+ * 拦截 in 操作符
+ * 'x' in state 也要收集依赖，x 新增或者删除的时候通知
+ */
+function has(target, key) {
+  track(target, TrackOpTypes.HAS, key)
+  return Reflect.has(target, key)
+}
+
+/**
+ * 拦截 delete 操作符
+ */
+function deleteProperty(target, key) {
+  const hadKey = hasOwn(target, key)
+  const oldValue = target[key]
+  const res = Reflect.deleteProperty(target, key)
+  if (res && hadKey) {
+    // 删除成功，并且之前确实有这个 key，才触发更新
+    trigger(target, TriggerOpTypes.DELETE, key, undefined, oldValue)
+  }
+  return res
+}
+
+/**
+ * 拦截 Object.keys、for...in 这些遍历操作
+ * 遍历没有具体的 key，对象收集到 ITERATE_KEY 上，数组收集 length 就行
+ */
+function ownKeys(target) {
+  track(target, TrackOpTypes.ITERATE, isArray(target) ? 'length' : ITERATE_KEY)
+  return Reflect.ownKeys(target)
+}
+
+export const mutableHandlers = {
+  get: createGetter(),
+  set: createSetter(),
+  has,
+  deleteProperty,
+  ownKeys,
+}
+
+export const shallowReactiveHandlers = {
+  get: createGetter(false, true),
+  set: createSetter(true),
+  has,
+  deleteProperty,
+  ownKeys,
+}
+
+/**
+ * 只读的代理，修改和删除都只给个警告，不会真的改
+ */
+export const readonlyHandlers = {
+  get: createGetter(true),
+  set(target, key) {
+    console.warn(`设置 ${String(key)} 失败：目标对象是只读的`, target)
+    return true
+  },
+  deleteProperty(target, key) {
+    console.warn(`删除 ${String(key)} 失败：目标对象是只读的`, target)
+    return true
   },
 }
+
+export const shallowReadonlyHandlers = {
+  ...readonlyHandlers,
+  get: createGetter(true, true),
+}
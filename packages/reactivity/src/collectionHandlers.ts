@@ -0,0 +1,220 @@
+import { hasChange, hasOwn, isMap, isObject } from '@vue/shared'
+import {
+  ITERATE_KEY,
+  MAP_KEY_ITERATE_KEY,
+  track,
+  TrackOpTypes,
+  trigger,
+  TriggerOpTypes,
+} from './dep'
+import { ReactiveFlags } from './ref'
+import { reactive, readonly, toRaw } from './reactive'
+
+/**
+ * Map Set 的方法都是通过 this 访问内部插槽的，this 是代理对象的话会直接报错
+ * 所以不能直接代理这些方法，要重写一份：在原始对象上操作，同时收集依赖、触发更新
+ * 方法中的 this 是代理对象，通过 this[ReactiveFlags.RAW] 拿到原始对象
+ */
+function createInstrumentations(isReadonly, shallow) {
+  // 取出来的值，深层的转成响应式（只读的转成只读），浅层的原样返回
+  const wrap = value => {
+    if (shallow || !isObject(value)) return value
+    return isReadonly ? readonly(value) : reactive(value)
+  }
+  // 只读的不会变，不用收集依赖
+  const trackIfNeeded = (target, type, key) => {
+    if (!isReadonly) track(target, type, key)
+  }
+  // 存进去的值用原始对象，不然同一个对象存了代理对象和原始对象两份，has 的时候也找不到
+  const toRawValue = value => (shallow ? value : toRaw(value))
+
+  function createIterableMethod(method) {
+    return function (...args) {
+      const target = this[ReactiveFlags.RAW]
+      const targetIsMap = isMap(target)
+      // entries 和 Map 的 for...of 拿到的是 [key, value]
+      const isPair =
+        method === 'entries' || (method === Symbol.iterator && targetIsMap)
+      // Map.keys() 只关心 key 的增删
+      const isKeyOnly = method === 'keys' && targetIsMap
+      const innerIterator = target[method](...args)
+      trackIfNeeded(
+        target,
+        TrackOpTypes.ITERATE,
+        isKeyOnly ? MAP_KEY_ITERATE_KEY : ITERATE_KEY,
+      )
+      // 返回一个包装过的迭代器，遍历出来的值也要转成响应式
+      return {
+        next() {
+          const { value, done } = innerIterator.next()
+          return done
+            ? { value, done }
+            : {
+                value: isPair ? [wrap(value[0]), wrap(value[1])] : wrap(value),
+                done,
+              }
+        },
+        [Symbol.iterator]() {
+          return this
+        },
+      }
+    }
+  }
+
+  const instrumentations = {
+    get(key) {
+      const target = this[ReactiveFlags.RAW]
+      // key 可能是遍历出来的代理对象，集合里存的是原始对象，两个都要找
+      const rawKey = toRaw(key)
+      if (key !== rawKey) {
+        trackIfNeeded(target, TrackOpTypes.GET, key)
+      }
+      trackIfNeeded(target, TrackOpTypes.GET, rawKey)
+      if (target.has(key)) {
+        return wrap(target.get(key))
+      } else if (target.has(rawKey)) {
+        return wrap(target.get(rawKey))
+      }
+    },
+    get size() {
+      const target = this[ReactiveFlags.RAW]
+      // size 和遍历一样，增删的时候会变
+      trackIfNeeded(target, TrackOpTypes.ITERATE, ITERATE_KEY)
+      return target.size
+    },
+    has(key) {
+      const target = this[ReactiveFlags.RAW]
+      const rawKey = toRaw(key)
+      if (key !== rawKey) {
+        trackIfNeeded(target, TrackOpTypes.HAS, key)
+      }
+      trackIfNeeded(target, TrackOpTypes.HAS, rawKey)
+      return key === rawKey
+        ? target.has(key)
+        : target.has(key) || target.has(rawKey)
+    },
+    add(value) {
+      const target = this[ReactiveFlags.RAW]
+      value = toRawValue(value)
+      if (!target.has(value)) {
+        target.add(value)
+        trigger(target, TriggerOpTypes.ADD, value, value)
+      }
+      return this
+    },
+    set(key, value) {
+      const target = this[ReactiveFlags.RAW]
+      value = toRawValue(value)
+      let hadKey = target.has(key)
+      if (!hadKey) {
+        // 传进来的可能是代理对象，再用原始对象找一下
+        key = toRaw(key)
+        hadKey = target.has(key)
+      }
+      const oldValue = target.get(key)
+      target.set(key, value)
+      if (!hadKey) {
+        trigger(target, TriggerOpTypes.ADD, key, value)
+      } else if (hasChange(value, oldValue)) {
+        trigger(target, TriggerOpTypes.SET, key, value, oldValue)
+      }
+      return this
+    },
+    delete(key) {
+      const target = this[ReactiveFlags.RAW]
+      let hadKey = target.has(key)
+      if (!hadKey) {
+        key = toRaw(key)
+        hadKey = target.has(key)
+      }
+      const oldValue = target.get ? target.get(key) : undefined
+      const result = target.delete(key)
+      if (hadKey) {
+        trigger(target, TriggerOpTypes.DELETE, key, undefined, oldValue)
+      }
+      return result
+    },
+    clear() {
+      const target = this[ReactiveFlags.RAW]
+      const hadItems = target.size !== 0
+      const result = target.clear()
+      if (hadItems) {
+        trigger(target, TriggerOpTypes.CLEAR)
+      }
+      return result
+    },
+    forEach(callback, thisArg) {
+      const target = this[ReactiveFlags.RAW]
+      const observed = this
+      trackIfNeeded(target, TrackOpTypes.ITERATE, ITERATE_KEY)
+      // 回调中拿到的值也要转成响应式，第三个参数是代理对象
+      return target.forEach((value, key) => {
+        return callback.call(thisArg, wrap(value), wrap(key), observed)
+      })
+    },
+  }
+
+  if (isReadonly) {
+    // 只读的，修改的方法都只给个警告
+    ;['add', 'set', 'delete', 'clear'].forEach(method => {
+      instrumentations[method] = function () {
+        console.warn(
+          `${method} 操作失败：目标集合是只读的`,
+          this[ReactiveFlags.RAW],
+        )
+        // delete 返回是否删除成功，其他的返回集合本身
+        return method === 'delete' ? false : this
+      }
+    })
+  }
+
+  const iteratorMethods = ['keys', 'values', 'entries', Symbol.iterator]
+  iteratorMethods.forEach(method => {
+    instrumentations[method] = createIterableMethod(method)
+  })
+
+  return instrumentations
+}
+
+/**
+ * 创建集合的 get 处理器
+ * 集合的操作都是方法调用，只需要拦截 get，把方法换成重写过的
+ */
+function createInstrumentationGetter(isReadonly, shallow) {
+  const instrumentations = createInstrumentations(isReadonly, shallow)
+  return function get(target, key, receiver) {
+    if (key === ReactiveFlags.IS_REACTIVE) {
+      return !isReadonly
+    } else if (key === ReactiveFlags.IS_READONLY) {
+      return isReadonly
+    } else if (key === ReactiveFlags.IS_SHALLOW) {
+      return shallow
+    } else if (key === ReactiveFlags.RAW) {
+      return target
+    }
+    // WeakMap WeakSet 没有 size 和遍历方法，要判断一下 target 上有没有
+    return Reflect.get(
+      hasOwn(instrumentations, key) && key in target
+        ? instrumentations
+        : target,
+      key,
+      receiver,
+    )
+  }
+}
+
+export const mutableCollectionHandlers = {
+  get: createInstrumentationGetter(false, false),
+}
+
+export const shallowCollectionHandlers = {
+  get: createInstrumentationGetter(false, true),
+}
+
+export const readonlyCollectionHandlers = {
+  get: createInstrumentationGetter(true, false),
+}
+
+export const shallowReadonlyCollectionHandlers = {
+  get: createInstrumentationGetter(true, true),
+}
@@ -1,9 +1,26 @@
 import { hasChange, isFunction } from '@vue/shared'
 import { ReactiveFlags } from './ref'
-import { Dependency, Sub, Link, link, startTrack, endTrack } from './system'
+import {
+  Dependency,
+  Sub,
+  Link,
+  link,
+  startTrack,
+  endTrack,
+  checkDirty,
+  shallowPropagate,
+  releaseComputed,
+  globalVersion,
+} from './system'
 import { activeSub, setActiveSub } from './effect'
+import { recordEffectScope } from './effectScope'
+import { TrackOpTypes } from './dep'
 
-export function computed(getterOptions) {
+/**
+ * @param getterOptions getter 函数，或者 { get, set }
+ * @param debugOptions 调试用的 { onTrack, onTrigger }，只在开发环境生效
+ */
+export function computed(getterOptions, debugOptions?) {
   // 传入函数：表示只有 getter（只读）
   // 传入对象：表示同时有 getter 与 setter
   let getter
@@ -15,7 +32,12 @@ export function computed(getterOptions) {
     getter = getterOptions.get
     setter = getterOptions.set
   }
-  return new ComputedRefImpl(getter, setter)
+  const cRef = new ComputedRefImpl(getter, setter)
+  if (__DEV__ && debugOptions) {
+    cRef.onTrack = debugOptions.onTrack
+    cRef.onTrigger = debugOptions.onTrigger
+  }
+  return cRef
 }
 
 class ComputedRefImpl implements Dependency, Sub {
@@ -40,17 +62,47 @@ class ComputedRefImpl implements Dependency, Sub {
 
   // 计算属性是否需要重新计算；为 true 时重新计算
   dirty = true
+  // 依赖的其他 computed 可能变了，读取的时候要检查一下
+  pending = false
+  // 上次计算时的全局版本号
+  globalVersion = -1
+
+  // 调试用，收集依赖、被通知更新的时候调用
+  onTrack?: (event) => void
+  onTrigger?: (event) => void
   constructor(
     public fn, // getter 为了保持和源码一致，叫fn，可能是为了保持和effect一致，computed以前用的是effect，现在自己实现了
     private setter,
-  ) {}
+  ) {
+    // 在 effectScope 中创建的，收集到作用域中，作用域 stop 的时候一起停止
+    recordEffectScope(this)
+  }
 
   get value() {
-    if (this.dirty) {
-      this.update()
+    // 惰性计算：有人读取的时候才检查要不要重新计算
+    if (this.dirty || (this.pending && checkDirty(this))) {
+      // 和依赖断开了的 computed 收不到通知，在 effect 外面读取的时候看全局版本号
+      // 上次计算之后没有任何数据变过，缓存的值还能用；在 effect 里读取的要重新计算，重新收集依赖
+      if (activeSub || this.deps || this.globalVersion !== globalVersion) {
+        if (this.update()) {
+          // 值变了，其他还在 pending 的订阅者也要知道，不然它们检查的时候会以为没变
+          shallowPropagate(this.subs)
+        }
+      }
     }
     if (activeSub) {
       link(this, activeSub)
+      if (__DEV__ && activeSub.onTrack) {
+        activeSub.onTrack({
+          effect: activeSub,
+          target: this,
+          type: TrackOpTypes.GET,
+          key: 'value',
+        })
+      }
+    } else if (!this.subs) {
+      // 在 effect 外面读取的（事件处理函数等），也没有订阅者，算完就断开和依赖的关联，下次读取再重新计算
+      releaseComputed(this)
     }
     return this._value
   }
@@ -74,6 +126,8 @@ class ComputedRefImpl implements Dependency, Sub {
     // 注意用try catch
     try {
       const oldValue = this._value // 缓存旧值
+      // 在 fn 执行之前记录，fn 执行期间数据变了的话，下次读取还会重新计算
+      this.globalVersion = globalVersion
       this._value = this.fn()
       // // update 执行完成后，将 dirty 改为 false，表示已缓存 这个判断移到endTrack中了
       // // this.dirty = false
@@ -85,4 +139,12 @@ class ComputedRefImpl implements Dependency, Sub {
       setActiveSub(prevSub)
     }
   }
+
+  /**
+   * 停止计算属性，清空收集到的依赖，之后依赖变化不会再通知它
+   */
+  stop() {
+    startTrack(this)
+    endTrack(this)
+  }
 }
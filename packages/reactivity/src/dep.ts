@@ -1,15 +1,75 @@
-import { Link, link, propagate } from './system'
+import { isMap } from '@vue/shared'
+import {
+  endBatch,
+  incrementGlobalVersion,
+  Link,
+  link,
+  propagate,
+  startBatch,
+} from './system'
 import { activeSub } from './effect'
 
-class Dep {
+/**
+ * 遍历的依赖 key
+ * forEach、size、values 这些遍历操作没有具体的 key，统一收集到这个 key 上
+ * 新增、删除属性的时候，遍历的结果会变，要通知它
+ */
+export const ITERATE_KEY = Symbol('iterate')
+
+/**
+ * Map.keys() 的依赖 key
+ * 只遍历 key 的话，修改已有 key 的值不会影响结果，所以和 ITERATE_KEY 分开
+ */
+export const MAP_KEY_ITERATE_KEY = Symbol('Map key iterate')
+
+/**
+ * 收集依赖的操作类型，调试的时候通过 onTrack 知道是怎么读取的
+ */
+export enum TrackOpTypes {
+  // 读取属性
+  GET = 'get',
+  // in 操作符，集合的 has
+  HAS = 'has',
+  // 遍历
+  ITERATE = 'iterate',
+}
+
+/**
+ * 触发更新的操作类型，用来判断要不要通知遍历的依赖
+ */
+export enum TriggerOpTypes {
+  // 修改已有的属性
+  SET = 'set',
+  // 新增属性
+  ADD = 'add',
+  // 删除属性
+  DELETE = 'delete',
+  // 清空集合
+  CLEAR = 'clear',
+}
+
+/**
+ * reactive 对象某个属性的依赖项
+ * 记录 target 和 key，查看依赖关系的时候知道它是哪个对象的哪个属性
+ */
+export class Dep {
   subs: Link
   subsTail: Link
-  constructor() {}
+  constructor(
+    public target,
+    public key,
+  ) {}
 }
 
 const targetMap = new WeakMap()
 
-export function track(target, key) {
+/**
+ * 收集依赖
+ * @param target 原始对象
+ * @param type 操作类型，调试用
+ * @param key 读取的 key
+ */
+export function track(target, type, key) {
   if (!activeSub) return
   // 通过 targetMap 获取 target 的依赖合集 (depsMap)
   let depsMap = targetMap.get(target)
@@ -25,44 +85,99 @@ export function track(target, key) {
   let dep = depsMap.get(key)
   // key: key (property name) / value: new Dep()
   if (!dep) {
-    dep = new Dep()
+    dep = new Dep(target, key)
     depsMap.set(key, dep)
   }
 
   link(dep, activeSub)
+
+  if (__DEV__ && activeSub.onTrack) {
+    activeSub.onTrack({ effect: activeSub, target, type, key })
+  }
+}
+
+/**
+ * 获取 target 所有属性的依赖项，查看依赖关系用
+ * @param target 原始对象
+ */
+export function getDepsMap(target) {
+  return targetMap.get(target)
 }
 
-export function trigger(target, key) {
+/**
+ * 触发更新
+ * @param target 原始对象
+ * @param type 操作类型
+ * @param key 修改的 key
+ * @param newValue 新值，调试用
+ * @param oldValue 旧值，调试用
+ */
+export function trigger(target, type, key?, newValue?, oldValue?) {
+  incrementGlobalVersion()
   const depsMap = targetMap.get(target)
   // 如果 depsMap 不存在，表示没有任何依赖被收集过，直接返回
   if (!depsMap) return
-  const targetIsArray = Array.isArray(target)
-  // 此处处理修改 lenght 导致的副作用
-  if (targetIsArray && key === 'length') {
-    const newLength = target.length
-    /**
-     * 一开始：['a', 'b', 'c', 'd'] length = 4
-     * 更新后：['a', 'b'] length = 2
-     */
-    depsMap.forEach((dep, depKey) => {
-      // 这里depKey可能是字符串数字 depKey >= newLength会隐式转成数字进行比较
-      if (depKey === 'length' || depKey >= newLength) {
-        // 通知更新
-        //  疑问：这里会不会有多次触发点问题，一次循环，多次触发，有必要吗
-        // propagete中有脏标记dirty，能确保同一个effect在同一轮循环中只执行一次
-        propagate(dep.subs)
+  // 传给 onTrigger 的信息，生产环境不需要
+  const debugInfo = __DEV__
+    ? { target, type, key, newValue, oldValue }
+    : undefined
+  // 一次操作可能要通知好几个依赖，批量处理，同一个 effect 只执行一次
+  startBatch()
+  try {
+    const targetIsArray = Array.isArray(target)
+    if (type === TriggerOpTypes.CLEAR) {
+      // 集合被清空了，所有的依赖都要通知
+      depsMap.forEach(dep => {
+        propagate(dep.subs, debugInfo)
+      })
+    } else if (targetIsArray && key === 'length') {
+      // 此处处理修改 lenght 导致的副作用
+      const newLength = target.length
+      /**
+       * 一开始：['a', 'b', 'c', 'd'] length = 4
+       * 更新后：['a', 'b'] length = 2
+       */
+      depsMap.forEach((dep, depKey) => {
+        // 这里depKey可能是字符串数字 depKey >= newLength会隐式转成数字进行比较
+        if (
+          depKey === 'length' ||
+          // Symbol.iterator 这些 Symbol 的 key 不能和数字比较，会报错
+          (typeof depKey !== 'symbol' && depKey >= newLength)
+        ) {
+          // 通知更新
+          //  疑问：这里会不会有多次触发点问题，一次循环，多次触发，有必要吗
+          // propagete中有脏标记dirty，能确保同一个effect在同一轮循环中只执行一次
+          propagate(dep.subs, debugInfo)
+        }
+      })
+    } else {
+      const deps = []
+      // 看一下之前有没有收集过这个 key
+      deps.push(depsMap.get(key))
+
+      if (!targetIsArray) {
+        const targetIsMap = isMap(target)
+        if (type === TriggerOpTypes.ADD || type === TriggerOpTypes.DELETE) {
+          // 新增、删除会影响遍历的结果
+          deps.push(depsMap.get(ITERATE_KEY))
+          if (targetIsMap) {
+            deps.push(depsMap.get(MAP_KEY_ITERATE_KEY))
+          }
+        } else if (type === TriggerOpTypes.SET && targetIsMap) {
+          // Map 修改值会影响 forEach values entries 的结果，但是不影响 keys
+          deps.push(depsMap.get(ITERATE_KEY))
+        }
       }
-    })
-  } else {
-    // 看一下之前有没有收集过这个 key
-    let dep = depsMap.get(key)
 
-    if (!dep) {
-      //  如果这个 key 没收集过，直接返回
-      return
+      for (const dep of deps) {
+        //  如果这个 key 没收集过，跳过
+        if (dep) {
+          // 通知更新
+          propagate(dep.subs, debugInfo)
+        }
+      }
     }
-
-    // 通知更新
-    propagate(dep.subs)
+  } finally {
+    endBatch()
   }
 }
@@ -1,11 +1,43 @@
 // effect.ts
-import { endTrack, Link, startTrack } from './system'
+import { checkDirty, endTrack, Link, startTrack } from './system'
+import { recordEffectScope } from './effectScope'
 
 export let activeSub: ReactiveEffect
 export function setActiveSub(sub) {
   activeSub = sub
 }
 
+// 暂停收集之前的 activeSub，恢复的时候要还原回去，可能会嵌套暂停，所以用栈保存
+const trackStack = []
+
+/**
+ * 暂停依赖收集，期间读取响应式数据不会建立关联关系
+ */
+export function pauseTracking() {
+  trackStack.push(activeSub)
+  activeSub = undefined
+}
+
+/**
+ * 恢复到暂停之前的依赖收集状态
+ */
+export function resetTracking() {
+  activeSub = trackStack.pop()
+}
+
+/**
+ * 执行 fn，期间读取的响应式数据不会被当前 effect 收集
+ * 比如在 effect 中打日志，读取了数据但是不希望数据变化的时候重新执行
+ */
+export function untracked(fn) {
+  pauseTracking()
+  try {
+    return fn()
+  } finally {
+    resetTracking()
+  }
+}
+
 export class ReactiveEffect {
   // 依赖项链表的头节点，指向Link
   deps: Link
@@ -13,11 +45,29 @@ export class ReactiveEffect {
   depsTail: Link
   tracking = false // 是否正在执行（收集中）
 
-  dirty = false // 是否需要重新计算（用于控制入队）
+  dirty = true // 是否需要重新执行（用于控制入队），还没执行过，所以是 true
+
+  pending = false // 依赖的 computed 可能变了，执行之前要检查一下
   
   active = true // 是否启用监听
 
-  constructor(public fn: Function) {}
+  paused = false // 是否暂停，暂停期间依赖变化不会重新执行
+
+  // 停止的时候调用，watch 用它执行 onCleanup 注册的清理函数
+  onStop?: () => void
+
+  // 名字，查看依赖关系图的时候用它作为标签，effect(fn, { name }) 传入
+  name?: string
+
+  // 调试用，收集依赖的时候调用，参数是 { effect, target, type, key }
+  onTrack?: (event) => void
+  // 调试用，依赖变化通知的时候调用，参数是 { effect, target, type, key, newValue, oldValue }
+  onTrigger?: (event) => void
+
+  constructor(public fn: Function) {
+    // 在 effectScope 中创建的，收集到作用域中，作用域 stop 的时候一起停止
+    recordEffectScope(this)
+  }
 
   run() {
     if (!this.active) {
@@ -42,15 +92,48 @@ export class ReactiveEffect {
    * 如果依赖数据发生变化，由此方法通知更新。
    */
   notify() {
+    if (this.paused) {
+      // 暂停中，dirty 保持为 true，等 resume 的时候再执行
+      return
+    }
     this.scheduler()
   }
 
   /*
-   * 默认的调度器，直接调用 run 方法。
+   * 暂停，依赖变化的时候只记录 dirty，不执行
+   */
+  pause() {
+    this.paused = true
+  }
+
+  /*
+   * 恢复，如果暂停期间依赖变化过，立刻通知一次
+   */
+  resume() {
+    if (this.paused) {
+      this.paused = false
+      if (this.dirty || this.pending) {
+        this.notify()
+      }
+    }
+  }
+
+  /*
+   * 是否真的需要重新执行
+   * dirty 直接执行；pending 要先检查依赖的 computed 的值是不是真的变了
+   */
+  isDirty() {
+    return this.dirty || (this.pending && checkDirty(this))
+  }
+
+  /*
+   * 默认的调度器，需要重新执行的时候调用 run 方法。
    * 如果用户传入了自定义的 scheduler，它会作为实例属性覆盖掉这个原型方法。
    */
   scheduler() {
-    this.run()
+    if (this.isDirty()) {
+      this.run()
+    }
   }
 
   stop() {
@@ -58,6 +141,10 @@ export class ReactiveEffect {
       startTrack(this)
       endTrack(this)
       this.active = false
+      // 作用域 stop 的时候也是调用的这里，清理的逻辑要放在 onStop 中才能执行到
+      if (this.onStop) {
+        this.onStop()
+      }
     }
   }
 }
@@ -0,0 +1,138 @@
+/**
+ * 当前正在执行 run 的作用域，在这期间创建的 effect 都会被它收集起来
+ */
+export let activeEffectScope: EffectScope | undefined
+
+/**
+ * 副作用作用域
+ * 把一组 effect、watch、computed 收集在一起，调用 stop 的时候一起停止
+ * 组合式函数里创建的 effect 就不用一个一个去停止了
+ */
+export class EffectScope {
+  // 是否还可用，stop 之后就不能再 run 了
+  active = true
+  // 是否暂停
+  paused = false
+  // 收集到的 effect 和 computed
+  effects = []
+  // onScopeDispose 注册的清理函数
+  cleanups = []
+  // 子作用域，父作用域 stop 的时候，子作用域也要 stop
+  scopes: EffectScope[] = []
+  // 父作用域
+  parent: EffectScope | undefined
+  // 在父作用域 scopes 中的位置，stop 的时候从父作用域中移除要用
+  private index: number | undefined
+
+  /**
+   * @param detached 是否独立，独立的作用域不会被父作用域收集，父作用域 stop 的时候不会影响它
+   */
+  constructor(public detached = false) {
+    this.parent = activeEffectScope
+    if (!detached && activeEffectScope) {
+      this.index = activeEffectScope.scopes.push(this) - 1
+    }
+  }
+
+  /**
+   * 在作用域中执行 fn，fn 中创建的 effect 都会被收集到这个作用域中
+   */
+  run(fn) {
+    if (!this.active) {
+      console.warn('effectScope 已经停止了，不能再执行 run')
+      return
+    }
+    const prevScope = activeEffectScope
+    activeEffectScope = this
+    try {
+      return fn()
+    } finally {
+      activeEffectScope = prevScope
+    }
+  }
+
+  /**
+   * 停止作用域：停止所有 effect，执行清理函数，停止子作用域
+   * @param fromParent 是不是父作用域 stop 的时候调用的，是的话不用从父作用域中移除，父作用域会整个清空
+   */
+  stop(fromParent = false) {
+    if (!this.active) return
+    this.active = false
+
+    this.effects.forEach(effect => effect.stop())
+    this.effects.length = 0
+
+    this.cleanups.forEach(cleanup => cleanup())
+    this.cleanups.length = 0
+
+    this.scopes.forEach(scope => scope.stop(true))
+    this.scopes.length = 0
+
+    if (!this.detached && this.parent && !fromParent) {
+      // 从父作用域中移除，用最后一个补到自己的位置上，不用挪动后面所有的元素
+      const last = this.parent.scopes.pop()
+      if (last && last !== this) {
+        this.parent.scopes[this.index] = last
+        last.index = this.index
+      }
+    }
+    this.parent = undefined
+  }
+
+  /**
+   * 暂停作用域中所有的 effect，子作用域也会暂停
+   */
+  pause() {
+    if (!this.active || this.paused) return
+    this.paused = true
+    this.scopes.forEach(scope => scope.pause())
+    // computed 是惰性的，没人读就不会计算，不需要暂停
+    this.effects.forEach(effect => effect.pause?.())
+  }
+
+  /**
+   * 恢复作用域中所有的 effect，暂停期间依赖变化过的 effect 会立刻执行一次
+   */
+  resume() {
+    if (!this.active || !this.paused) return
+    this.paused = false
+    this.scopes.forEach(scope => scope.resume())
+    this.effects.forEach(effect => effect.resume?.())
+  }
+}
+
+/**
+ * 创建一个副作用作用域
+ * @param detached 是否独立于当前的作用域
+ */
+export function effectScope(detached = false) {
+  return new EffectScope(detached)
+}
+
+/**
+ * 获取当前正在执行 run 的作用域
+ */
+export function getCurrentScope() {
+  return activeEffectScope
+}
+
+/**
+ * 注册一个清理函数，当前作用域 stop 的时候执行
+ * 和组件的 onUnmounted 类似，不过不依赖组件，组合式函数里也可以用
+ */
+export function onScopeDispose(fn) {
+  if (activeEffectScope) {
+    activeEffectScope.cleanups.push(fn)
+  } else {
+    console.warn('onScopeDispose() 只能在 effectScope 的 run 中调用')
+  }
+}
+
+/**
+ * 把 effect 收集到当前的作用域中
+ */
+export function recordEffectScope(effect) {
+  if (activeEffectScope && activeEffectScope.active) {
+    activeEffectScope.effects.push(effect)
+  }
+}
@@ -2,4 +2,7 @@ export * from './effect'
 export * from './ref'
 export * from './reactive'
 export * from './computed'
-export * from './watch'
\ No newline at end of file
+export * from './watch'
+export * from './effectScope'
+export * from './inspector'
+export { batch, startBatch, endBatch } from './system'
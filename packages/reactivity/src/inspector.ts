@@ -0,0 +1,180 @@
+import { isFunction, isObject, toRawType } from '@vue/shared'
+import { Dep, getDepsMap, ITERATE_KEY, MAP_KEY_ITERATE_KEY } from './dep'
+import { ReactiveEffect } from './effect'
+import { isRef } from './ref'
+import { toRaw } from './reactive'
+
+/**
+ * 查看响应式数据之间的依赖关系，调试用
+ * 依赖关系都存在 system.ts 的 Link 双向链表中：
+ * dep.subs 是订阅它的 effect / computed，sub.deps 是它依赖的 ref / computed / reactive 属性
+ */
+
+/**
+ * 找到数据源对应的依赖项
+ * 1. ref computed 本身就是依赖项
+ * 2. toRef 创建的 ref，依赖项是原来对象上的那个属性
+ * 3. reactive 对象传了 key，就是那个属性的依赖项，没传就是所有属性的
+ */
+function resolveDeps(source, key?) {
+  if (isRef(source)) {
+    if ('_object' in source) {
+      return resolveDeps(source._object, source._key)
+    }
+    return [source]
+  }
+  if (!isObject(source)) return []
+  const depsMap = getDepsMap(toRaw(source))
+  if (!depsMap) return []
+  if (key !== undefined) {
+    return depsMap.has(key) ? [depsMap.get(key)] : []
+  }
+  return [...depsMap.values()]
+}
+
+/**
+ * 找到订阅者，effect 返回的 runner 上挂着 effect 实例
+ */
+function resolveSub(sub) {
+  return isFunction(sub) && sub.effect ? sub.effect : sub
+}
+
+/**
+ * 获取数据的订阅者，也就是哪些 effect / computed 读取了它
+ * @param source ref、computed、reactive 对象
+ * @param key reactive 对象的属性，不传就是所有属性的订阅者
+ */
+export function getSubscribers(source, key?) {
+  const subs = new Set()
+  for (const dep of resolveDeps(source, key)) {
+    for (let link = dep.subs; link; link = link.nextSub) {
+      subs.add(link.sub)
+    }
+  }
+  return [...subs]
+}
+
+/**
+ * 获取订阅者依赖的数据
+ * reactive 对象的属性返回的是 Dep，通过 dep.target dep.key 知道是哪个对象的哪个属性
+ * @param sub effect、effect 返回的 runner、computed
+ */
+export function getDependencies(sub) {
+  const deps = []
+  for (let link = resolveSub(sub)?.deps; link; link = link.nextDep) {
+    deps.push(link.dep)
+  }
+  return deps
+}
+
+function formatKey(key) {
+  if (key === ITERATE_KEY) return '[iterate]'
+  if (key === MAP_KEY_ITERATE_KEY) return '[keys]'
+  return String(key)
+}
+
+/**
+ * 节点的类型和标签
+ * effect 有 name 就用 name，没有就按类型编号，同一张图中遍历的顺序是固定的，所以编号也是稳定的
+ */
+function describeNode(node, counters) {
+  let type
+  if (node instanceof ReactiveEffect) {
+    type = 'effect'
+  } else if (node instanceof Dep) {
+    return {
+      type: 'reactive',
+      label: `${toRawType(node.target)}.${formatKey(node.key)}`,
+    }
+  } else if ('update' in node) {
+    type = 'computed'
+  } else {
+    type = 'ref'
+  }
+  if (node.name) {
+    return { type, label: node.name }
+  }
+  counters[type] = (counters[type] || 0) + 1
+  return { type, label: `${type}#${counters[type]}` }
+}
+
+/**
+ * 导出依赖关系图，从传入的数据源 / 订阅者出发，把能到达的节点都找出来
+ * 返回的是普通对象，可以直接 JSON.stringify，也可以用 toDOT 转成 Graphviz 的格式
+ * @example
+ * getDependencyGraph(state, runner)
+ * // { nodes: [{ id: 'n0', type: 'reactive', label: 'Object.count' }, ...], edges: [{ from: 'n0', to: 'n1' }] }
+ * edge 的方向是 依赖项 => 订阅者，和数据变化通知的方向一致
+ */
+export function getDependencyGraph(...sources) {
+  const ids = new Map()
+  const nodes = []
+  const edges = []
+  const edgeKeys = new Set()
+  const counters = {}
+  const queue = []
+
+  const addNode = node => {
+    if (!ids.has(node)) {
+      const id = `n${ids.size}`
+      ids.set(node, id)
+      nodes.push({ id, ...describeNode(node, counters) })
+      queue.push(node)
+    }
+    return ids.get(node)
+  }
+  const addEdge = (dep, sub) => {
+    const from = addNode(dep)
+    const to = addNode(sub)
+    const key = `${from}->${to}`
+    if (!edgeKeys.has(key)) {
+      edgeKeys.add(key)
+      edges.push({ from, to })
+    }
+  }
+
+  for (const source of sources) {
+    const sub = resolveSub(source)
+    if (sub instanceof ReactiveEffect) {
+      addNode(sub)
+    } else {
+      resolveDeps(source).forEach(addNode)
+    }
+  }
+
+  // 广度优先遍历，往上找依赖，往下找订阅者
+  while (queue.length) {
+    const node = queue.shift()
+    for (let link = node.deps; link; link = link.nextDep) {
+      addEdge(link.dep, node)
+    }
+    for (let link = node.subs; link; link = link.nextSub) {
+      addEdge(node, link.sub)
+    }
+  }
+
+  return { nodes, edges }
+}
+
+const dotShapes = {
+  effect: 'box',
+  computed: 'hexagon',
+  ref: 'ellipse',
+  reactive: 'ellipse',
+}
+
+/**
+ * 把依赖关系图转成 Graphviz 的 DOT 格式，可以用 dot -Tsvg 画出来
+ */
+export function toDOT(graph) {
+  const escape = str => str.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
+  const lines = ['digraph reactivity {']
+  for (const { id, type, label } of graph.nodes) {
+    lines.push(`  ${id} [label="${escape(label)}", shape=${dotShapes[type]}];`)
+  }
+  for (const { from, to } of graph.edges) {
+    lines.push(`  ${from} -> ${to};`)
+  }
+  lines.push('}')
+  return lines.join('\n')
+}
@@ -1,9 +1,65 @@
-import { isObject } from '@vue/shared'
+import { isObject, toRawType } from '@vue/shared'
 
-import { mutableHandlers } from './baseHandlers'
+import {
+  mutableHandlers,
+  readonlyHandlers,
+  shallowReactiveHandlers,
+  shallowReadonlyHandlers,
+} from './baseHandlers'
+import {
+  mutableCollectionHandlers,
+  readonlyCollectionHandlers,
+  shallowCollectionHandlers,
+  shallowReadonlyCollectionHandlers,
+} from './collectionHandlers'
+import { ReactiveFlags } from './ref'
 
 export function reactive(target) {
-  return createReactiveObject(target)
+  return createReactiveObject(
+    target,
+    mutableHandlers,
+    mutableCollectionHandlers,
+    reactiveMap,
+  )
+}
+
+/**
+ * 浅层的响应式对象，只有第一层属性是响应式的
+ * 嵌套的对象原样返回，ref 也不会自动解包
+ */
+export function shallowReactive(target) {
+  return createReactiveObject(
+    target,
+    shallowReactiveHandlers,
+    shallowCollectionHandlers,
+    shallowReactiveMap,
+  )
+}
+
+/**
+ * 只读的代理对象，修改、删除属性都会警告，嵌套的对象也是只读的
+ * 只读的数据不会变，所以也不会收集依赖
+ */
+export function readonly(target) {
+  return createReactiveObject(
+    target,
+    readonlyHandlers,
+    readonlyCollectionHandlers,
+    readonlyMap,
+  )
+}
+
+/**
+ * 浅层的只读代理对象，只有第一层属性是只读的
+ * 嵌套的对象原样返回，ref 也不会自动解包
+ */
+export function shallowReadonly(target) {
+  return createReactiveObject(
+    target,
+    shallowReadonlyHandlers,
+    shallowReadonlyCollectionHandlers,
+    shallowReadonlyMap,
+  )
 }
 
 /**
@@ -14,11 +70,13 @@ export function reactive(target) {
 const reactiveMap = new WeakMap()
 
 /**
- * S情况2：
- * 保存所有使用 reactive 创建的响应式对象
- * 用于检查是否被重复 reactive
+ * 存储 target 与浅层响应式对象的关联关系，和 reactiveMap 分开，同一个 target 两种都可以创建
  */
-const reactiveSet = new Set()
+const shallowReactiveMap = new WeakMap()
+
+const readonlyMap = new WeakMap()
+
+const shallowReadonlyMap = new WeakMap()
 
 // createReactiveObject 本身的限制，以及我们的需求：
 // 它只能接收对象类型，所以我们要去判断它的类型。
@@ -27,33 +85,107 @@ const reactiveSet = new Set()
 // 收集依赖：target 的每个属性都是一个依赖，因此我们需在收集依赖时，把 target 的属性跟 effect (也就是 sub) 建立关联关系。
 // 触发更新：通知之前为该属性收集的依赖，让它们重新执行。
 
-export function createReactiveObject(target) {
+/**
+ * 判断是不是集合类型，集合的操作都是方法调用，要用单独的处理器
+ */
+function isCollectionType(target) {
+  const rawType = toRawType(target)
+  return (
+    rawType === 'Map' ||
+    rawType === 'Set' ||
+    rawType === 'WeakMap' ||
+    rawType === 'WeakSet'
+  )
+}
+
+export function createReactiveObject(
+  target,
+  baseHandlers,
+  collectionHandlers,
+  proxyMap,
+) {
   // 不是对象, 原路返回
   if (!isObject(target)) return target
+  // 用 markRaw 标记过的，或者不能扩展的对象（Object.freeze 过的），不转成响应式
+  if (target[ReactiveFlags.SKIP] || !Object.isExtensible(target)) {
+    return target
+  }
   // S情况一：原始对象传入 Reactive 对象
   // 如果这个 target 已经被 reactive 过了，直接返回已创建的 proxy
-  const existingProxy = reactiveMap.get(target)
+  const existingProxy = proxyMap.get(target)
   if (existingProxy) {
     return existingProxy
   }
   // S情况二：Reactive 对象传入 Reactive
-  if (reactiveSet.has(target)) {
-    return reactiveMap.get(target)
+  // 已经是代理对象了，直接返回，只有 readonly(reactive 对象)、shallowReadonly(reactive 对象) 要再包一层
+  const isReadonlyMap =
+    proxyMap === readonlyMap || proxyMap === shallowReadonlyMap
+  if (
+    target[ReactiveFlags.RAW] &&
+    !(isReadonlyMap && target[ReactiveFlags.IS_REACTIVE])
+  ) {
+    return target
   }
 
-  const proxy = new Proxy(target, mutableHandlers)
+  const proxy = new Proxy(
+    target,
+    isCollectionType(target) ? collectionHandlers : baseHandlers,
+  )
   // 缓存 target 与响应式对象的关联
-  reactiveMap.set(target, proxy)
-
-  // 记录该 proxy 已是响应式对象
-  reactiveSet.add(proxy)
+  proxyMap.set(target, proxy)
 
   return proxy
 }
 
-// 判断 target 是否为响应式对象：只要在 reactiveSet 中存在即为 true
-export function isReactive(target) {
-  return reactiveSet.has(target)
+/**
+ * 判断是不是 reactive 创建的响应式对象
+ * readonly(reactive 对象) 也算，要看它里面包着的那个
+ */
+export function isReactive(value) {
+  if (isReadonly(value)) {
+    return isReactive(value[ReactiveFlags.RAW])
+  }
+  return !!(value && value[ReactiveFlags.IS_REACTIVE])
+}
+
+export function isReadonly(value) {
+  return !!(value && value[ReactiveFlags.IS_READONLY])
+}
+
+export function isShallow(value) {
+  return !!(value && value[ReactiveFlags.IS_SHALLOW])
+}
+
+/**
+ * 判断是不是代理对象，reactive readonly 创建的都算
+ */
+export function isProxy(value) {
+  return value ? !!value[ReactiveFlags.RAW] : false
+}
+
+/**
+ * 拿到代理对象背后的原始对象
+ * readonly(reactive(obj)) 这种包了好几层的，要一直往里拿
+ */
+export function toRaw(observed) {
+  const raw = observed && observed[ReactiveFlags.RAW]
+  return raw ? toRaw(raw) : observed
+}
+
+/**
+ * 标记一个对象，让它永远不会被转成响应式对象
+ * 第三方库的实例（地图、编辑器等）被代理之后可能没法正常工作，可以用它跳过
+ */
+export function markRaw(value) {
+  if (Object.isExtensible(value)) {
+    // 不可枚举，避免遍历、序列化的时候把这个标记带出去
+    Object.defineProperty(value, ReactiveFlags.SKIP, {
+      configurable: true,
+      enumerable: false,
+      value: true,
+    })
+  }
+  return value
 }
 
 // reactive 的基本实现之后，接下来会遇到几种常见且必须处理的情况S（标记S）：
@@ -1,10 +1,21 @@
 import { hasChange, isObject } from '@vue/shared'
 import { activeSub } from './effect'
-import { link, Link, propagate } from './system'
+import { incrementGlobalVersion, link, Link, propagate } from './system'
 import { reactive } from './reactive'
+import { TrackOpTypes, TriggerOpTypes } from './dep'
 
 export enum ReactiveFlags {
   IS_REF = '__v_isRef',
+  // 是不是 reactive 创建的代理对象
+  IS_REACTIVE = '__v_isReactive',
+  // 是不是只读的代理对象
+  IS_READONLY = '__v_isReadonly',
+  // 是不是浅层的代理对象，或者浅层的 ref
+  IS_SHALLOW = '__v_isShallow',
+  // 有这个标记的对象不会被转成响应式对象，markRaw 设置的
+  SKIP = '__v_skip',
+  // 通过这个 key 可以从代理对象上拿到原始对象
+  RAW = '__v_raw',
 }
 
 class RefImpl {
@@ -17,10 +28,20 @@ class RefImpl {
 
   // 订阅者effect链表尾节点，指向最后一个订阅者
   subsTail: Link
-  constructor(value) {
+
+  // 浅层的 ref 只有替换 .value 才会触发更新，值原样保存，不转成响应式对象
+  readonly [ReactiveFlags.IS_SHALLOW]: boolean
+
+  constructor(value, isShallow = false) {
+    this[ReactiveFlags.IS_SHALLOW] = isShallow
     // S情况四：嵌套对象传入 ref
     // 如果 value 是对象，则先转为响应式对象
-    this._value = isObject(value) ? reactive(value) : value
+    this._value = this.toValue(value)
+  }
+
+  toValue(value) {
+    if (this[ReactiveFlags.IS_SHALLOW]) return value
+    return isObject(value) ? reactive(value) : value
   }
 
   // 收集依赖
@@ -35,12 +56,11 @@ class RefImpl {
   // 触发更新
   set value(newValue) {
     if (hasChange(newValue, this._value)) {
+      const oldValue = this._value
       // S情况四：嵌套对象传入 ref
       // 值发生变化，则触发更新
-      this._value = isObject(newValue) ? reactive(newValue) : newValue
-      if (this.subs) {
-        triggerRef(this)
-      }
+      this._value = this.toValue(newValue)
+      triggerRefValue(this, newValue, oldValue)
     }
   }
 }
@@ -49,16 +69,100 @@ export function ref(value) {
   return new RefImpl(value)
 }
 
+/**
+ * 浅层的 ref，只有 .value 被替换的时候才会触发更新
+ * 大的数据（比如图表的数据）不需要深层监听，用它性能更好
+ * 直接修改里面的数据不会触发更新，可以改完之后手动调用 triggerRef
+ */
+export function shallowRef(value) {
+  return new RefImpl(value, true)
+}
+
 export function isRef(value) {
   return !!(value && value[ReactiveFlags.IS_REF])
 }
 
 export function trackRef(dep) {
   link(dep, activeSub)
+
+  if (__DEV__ && activeSub.onTrack) {
+    activeSub.onTrack({
+      effect: activeSub,
+      target: dep,
+      type: TrackOpTypes.GET,
+      key: 'value',
+    })
+  }
 }
 
+/**
+ * 通知 ref 的订阅者重新执行
+ * 也可以手动调用，比如修改了 shallowRef 里面的数据之后强制触发更新
+ */
 export function triggerRef(dep) {
-  propagate(dep.subs)
+  triggerRefValue(dep, dep._value)
+}
+
+function triggerRefValue(dep, newValue, oldValue?) {
+  incrementGlobalVersion()
+  if (dep.subs) {
+    propagate(
+      dep.subs,
+      __DEV__
+        ? {
+            target: dep,
+            type: TriggerOpTypes.SET,
+            key: 'value',
+            newValue,
+            oldValue,
+          }
+        : undefined,
+    )
+  }
+}
+
+class CustomRefImpl {
+  [ReactiveFlags.IS_REF] = true
+
+  subs: Link
+  subsTail: Link
+
+  private readonly _get
+  private readonly _set
+
+  constructor(factory) {
+    // 把收集依赖、触发更新的时机交给用户决定
+    const { get, set } = factory(
+      () => {
+        if (activeSub) {
+          trackRef(this)
+        }
+      },
+      () => triggerRef(this),
+    )
+    this._get = get
+    this._set = set
+  }
+
+  get value() {
+    return this._get()
+  }
+
+  set value(newValue) {
+    this._set(newValue)
+  }
+}
+
+/**
+ * 自定义的 ref，可以自己控制什么时候收集依赖、什么时候触发更新，比如防抖的 ref
+ * @example
+ * customRef((track, trigger) => ({
+ *   get() { track(); return value },
+ *   set(newValue) { value = newValue; trigger() },
+ * }))
+ */
+export function customRef(factory) {
+  return new CustomRefImpl(factory)
 }
 
 class ObjectRefImpl {
@@ -17,6 +17,14 @@ export interface Sub {
   depsTail: Link | undefined
   // 是否正在收集依赖
   tracking: boolean
+  // 直接依赖的数据变了，一定要重新执行
+  dirty: boolean
+  // 依赖的 computed 可能变了，要检查一下才知道需不需要重新执行
+  pending: boolean
+  // 调试用，收集依赖的时候调用
+  onTrack?: (event) => void
+  // 调试用，依赖变化通知它的时候调用
+  onTrigger?: (event) => void
 }
 
 export interface Link {
@@ -35,6 +43,62 @@ export interface Link {
 // 复用节点池
 let linkPool: Link
 
+// 全局版本号，任何响应式数据变化都会加一
+// 没有订阅者的 computed 和依赖是断开的，收不到通知，靠它判断上次计算之后有没有数据变过
+export let globalVersion = 0
+
+export function incrementGlobalVersion() {
+  globalVersion++
+}
+
+// 批量更新的嵌套层数，大于 0 表示在批量更新中
+let batchDepth = 0
+// 批量更新期间被通知的 effect，等最外层的批量更新结束再执行
+const batchedEffects = []
+
+/**
+ * 开始批量更新，期间数据变化只标记，不执行 effect
+ */
+export function startBatch() {
+  batchDepth++
+}
+
+/**
+ * 结束批量更新，最外层结束的时候，依次执行期间被通知的 effect
+ * effect 通知过一次之后就有标记了，再变化也不会重复入队，所以每个 effect 最多执行一次
+ */
+export function endBatch() {
+  if (--batchDepth > 0) return
+  let error
+  let effect
+  while ((effect = batchedEffects.shift())) {
+    try {
+      effect.notify()
+    } catch (err) {
+      // 一个 effect 报错不影响其他 effect 执行，最后再抛出第一个错误
+      if (!error) error = err
+    }
+  }
+  if (error) throw error
+}
+
+/**
+ * 批量更新，fn 中多次修改数据，effect 只会在 fn 执行完之后执行一次
+ * @example
+ * batch(() => {
+ *   state.a = 1
+ *   state.b = 2
+ * })
+ */
+export function batch(fn) {
+  startBatch()
+  try {
+    return fn()
+  } finally {
+    endBatch()
+  }
+}
+
 /** 建立链表关系
  * dep 是依赖项，例如 ref/computed/reactive
  * sub 是订阅者，例如 effect
@@ -64,6 +128,9 @@ export function link(dep, sub) {
     newLink.nextDep = nextDep
     newLink.sub = sub
     newLink.dep = dep
+    // 池里的节点可能还挂着上次的 nextSub / prevSub，要清掉，不然会链到已经回收的节点上
+    newLink.nextSub = undefined
+    newLink.prevSub = undefined
   } else {
     /**
      * 如果 linkPool 不存在，表示没有可复用的节点，那就创建一个新节点
@@ -105,37 +172,127 @@ export function link(dep, sub) {
     sub.depsTail = newLink
   }
 }
-export function processComputedUpdate(sub) {
-  // update 返回 true 表示数值发生变化，才继续向下触发 effect
-  if (sub.subs && sub.update()) {
-    // 通知其 sub 链表中的其他 sub（effect） 更新
-    propagate(sub.subs)
+
+/**
+ * 传播更新的函数
+ * 分成两个阶段，这里只做第一阶段：标记
+ * 直接依赖变化的订阅者标记为 dirty，通过 computed 间接依赖的订阅者标记为 pending
+ * 这里不会执行 computed，computed 等到有人读取的时候再检查要不要重新计算（第二阶段，见 checkDirty）
+ * 用栈代替递归，computed 链很深的时候也不会一层一层递归下去
+ * @param debugInfo 调试信息，会传给直接订阅者的 onTrigger，通过 computed 间接触发的，在 computed 的 onTrigger 里看
+ */
+export function propagate(subs, debugInfo?) {
+  startBatch()
+  try {
+    // 待处理的订阅者链表，以及这一层是不是直接依赖
+    const stack: [Link, boolean][] = [[subs, true]]
+
+    while (stack.length) {
+      let [link, isDirect] = stack.pop()
+      while (link) {
+        // computed 既是订阅者也是依赖项
+        const sub: Sub & Partial<Dependency> = link.sub
+        link = link.nextSub
+        // 正在执行中的订阅者，执行完会拿到最新的值，不用处理
+        if (sub.tracking) continue
+
+        if (__DEV__ && isDirect && debugInfo && sub.onTrigger) {
+          sub.onTrigger({ effect: sub, ...debugInfo })
+        }
+
+        // 之前已经通知过了（还没执行），只更新标记，不用再往下传播、再入队
+        const notified = sub.dirty || sub.pending
+        if (isDirect) {
+          sub.dirty = true
+        } else {
+          sub.pending = true
+        }
+        if (notified) continue
+
+        if ('update' in sub) {
+          // computed 不立即计算，把它的订阅者标记为 pending，它的值可能会变
+          if (sub.subs) {
+            stack.push([sub.subs, false])
+          }
+        } else {
+          batchedEffects.push(sub)
+        }
+      }
+    }
+  } finally {
+    // 不在批量更新中的话，这里就会执行 effect
+    endBatch()
   }
 }
 
-/* * 传播更新的函数
+/**
+ * 第二阶段：检查 pending 状态的订阅者是不是真的需要重新执行
+ * 依次检查它依赖的 computed，有标记的先让 computed 重新计算，值真的变了才返回 true
+ * 所有 computed 的值都没变，就不需要重新执行，清掉 pending 标记
+ * 和 propagate 一样用栈代替递归，pending 的 computed 先检查它自己的依赖，检查完再回到上一层
  */
-export function propagate(subs) {
-  let link = subs
-  let queuedEffect = []
+export function checkDirty(sub) {
+  // 还没检查完的上层订阅者，以及检查到了哪个依赖
+  const stack: [Sub, Link][] = []
+  let link = sub.deps
+  let dirty = false
 
+  while (true) {
+    while (link) {
+      const dep = link.dep
+      if ('update' in dep) {
+        if (dep.dirty) {
+          if (dep.update()) {
+            // computed 的值变了，它的其他订阅者也直接标记为 dirty，不用再检查一遍
+            shallowPropagate(dep.subs)
+            dirty = true
+            break
+          }
+        } else if (dep.pending) {
+          // 进入下一层，检查这个 computed 的依赖
+          stack.push([sub, link])
+          sub = dep
+          link = dep.deps
+          continue
+        }
+      }
+      link = link.nextDep
+    }
+
+    if (!dirty) {
+      sub.pending = false
+    }
+    // 最外层也检查完了
+    if (!stack.length) return dirty
+
+    // 回到上一层，刚才检查的 sub 是上一层依赖的 computed
+    const computed = sub
+    ;[sub, link] = stack.pop()
+    if (dirty) {
+      // computed 的依赖变了，重新计算，值真的变了才算上一层也变了
+      dirty = computed.update()
+      if (dirty) {
+        shallowPropagate(computed.subs)
+        continue
+      }
+    }
+    link = link.nextDep
+  }
+}
+
+/**
+ * computed 重新计算之后值变了，把 pending 状态的订阅者标记为 dirty
+ * 只处理一层，再往下的订阅者读取的时候会自己检查
+ */
+export function shallowPropagate(subs) {
+  let link = subs
   while (link) {
     const sub = link.sub
-    // 只有不在执行中的 effect，且目前是“干净状态”（dirty=false）时，才入队
-    if (!sub.tracking && !sub.dirty) {
-      // 入队前先设置为“脏”（避免同一轮事件循环被重复入队）
+    if (sub.pending && !sub.dirty) {
       sub.dirty = true
-      if ('update' in sub) {
-        processComputedUpdate(sub)
-      } else {
-        queuedEffect.push(sub)
-      }
     }
-
     link = link.nextSub
   }
-
-  queuedEffect.forEach(effect => effect.notify())
 }
 
 export function startTrack(sub) {
@@ -147,6 +304,7 @@ export function endTrack(sub) {
   sub.tracking = false // 执行结束，取消标记
   const depsTail = sub.depsTail
   sub.dirty = false // 本次 fn 执行完毕，复位为“干净”
+  sub.pending = false
 
   /**
    *
@@ -164,13 +322,44 @@ export function endTrack(sub) {
   }
 }
 
+/**
+ * 断开 computed 和它的依赖之间的关联
+ * 没有订阅者的 computed，上游的依赖不应该一直引用着它，不然它就一直不会被回收，数据变化的时候还会一直被标记
+ * 断开之后标记为 dirty，下次读取的时候会重新计算，重新收集依赖
+ */
+export function releaseComputed(computed) {
+  clearTracking(detachComputed(computed))
+}
+
+/**
+ * 重置 computed 的依赖链表和标记，返回原来的依赖链表，交给 clearTracking 去断开
+ */
+function detachComputed(computed) {
+  const deps = computed.deps
+  computed.deps = computed.depsTail = undefined
+  computed.dirty = true
+  computed.pending = false
+  return deps
+}
+
 /**
  * 清理依赖函数链表
+ * 依赖的 computed 没有订阅者了也要断开它的依赖，放到栈里接着处理，computed 链很深也不会递归
  */
 
 function clearTracking(link: Link) {
-  while (link) {
-    const { prevSub, nextSub, dep, nextDep } = link
+  const released = []
+  while (true) {
+    if (!link) {
+      const computed = released.pop()
+      if (!computed) return
+      link = detachComputed(computed)
+      continue
+    }
+
+    const { prevSub, nextSub, nextDep } = link
+    // 依赖项可能是 computed，computed 也是订阅者
+    const dep: Dependency & Partial<Sub> = link.dep
 
     /**
      * 1. 如果上一个节点存在 sub，就把它的 nextSub 指向当前节点的下一个节点
@@ -197,6 +386,11 @@ function clearTracking(link: Link) {
 
     link.dep = link.sub = undefined
 
+    if (dep.subs === undefined && 'update' in dep) {
+      // computed 最后一个订阅者也没了，没有人会再读它，把它和它的依赖也断开
+      released.push(dep)
+    }
+
     /**
      * 把不再需要的节点放回 linkPool 中，以备复用
      */
@@ -1,10 +1,37 @@
 import { isRef } from './ref'
 import { isReactive } from './reactive'
 import { ReactiveEffect } from './effect'
-import { isObject, isFunction } from '@vue/shared'
-export function watch(source, cb, options) {
-  let { immediate, once, deep } = options || {}
+import { getCurrentScope } from './effectScope'
+import {
+  isObject,
+  isFunction,
+  isArray,
+  hasChange,
+  isMap,
+  isSet,
+} from '@vue/shared'
+
+/**
+ * 监听响应式数据的变化
+ * @param source ref、reactive 对象、函数，或者它们组成的数组
+ * @param cb 回调函数，不传就是 watchEffect，source 函数本身就是副作用
+ * @param options immediate once deep，scheduler 自定义 job 的执行时机（runtime-core 用它实现 flush）
+ * @returns 调用它可以停止监听，上面还有 pause resume stop 方法
+ */
+export function watch(source, cb, options?) {
+  let { immediate, once, deep, scheduler, onTrack, onTrigger } = options || {}
+
+  // 副作用清理
+  let cleanup = null
+  function onCleanup(cb) {
+    cleanup = cb
+  }
+
   let getter
+  // 是不是监听多个数据源
+  let isMultiSource = false
+  // reactive 对象返回的一直是同一个对象，没办法比较新旧值，只要触发了就执行回调
+  let forceTrigger = false
   if (isRef(source)) {
     getter = () => source.value
   } else if (isReactive(source)) {
@@ -13,9 +40,41 @@ export function watch(source, cb, options) {
       deep = true
     }
   } else if (isFunction(source)) {
-    getter = source
+    if (cb) {
+      getter = source
+    } else {
+      // watchEffect，每次重新执行之前，先清理上一次的副作用
+      getter = () => {
+        if (cleanup) {
+          cleanup()
+          cleanup = null
+        }
+        return source(onCleanup)
+      }
+    }
+  } else if (isArray(source)) {
+    // watch([a, () => b.x, state], cb) 新旧值都是数组，每一项分别处理
+    isMultiSource = true
+    forceTrigger = source.some(s => isReactive(s))
+    getter = () =>
+      source.map(s => {
+        if (isRef(s)) {
+          return s.value
+        } else if (isReactive(s)) {
+          return traverse(s)
+        } else if (isFunction(s)) {
+          return s()
+        } else {
+          warnInvalidSource(s)
+        }
+      })
+  } else {
+    warnInvalidSource(source)
+    getter = () => {}
   }
-  let oldValue
+  // 第一次执行回调的时候，旧值是 undefined，多数据源是空数组
+  let oldValue = isMultiSource ? [] : undefined
+  let isFirstRun = true
 
   // 要实现 once 功能，可以对用户的 callback 做包装：先缓存原始 callback，再用一个匿名函数替换掉 cb，执行完后立刻调用 stop() 停止监听。
   if (once) {
@@ -31,14 +90,21 @@ export function watch(source, cb, options) {
     const depth = deep === true ? Infinity : deep
     getter = () => traverse(baseGetter(), depth)
   }
-  
-  // 副作用清理
-  let cleanup = null
-  function onCleanup(cb) {
-    cleanup = cb
-  }
 
   function job() {
+    if (!effect.active) {
+      // 已经停止了，job 可能之前就放到了队列中，不用再执行
+      return
+    }
+    if (!effect.isDirty()) {
+      // 依赖的 computed 重新计算之后值没变，不用执行
+      return
+    }
+    if (!cb) {
+      // watchEffect 直接重新执行
+      effect.run()
+      return
+    }
     if (cleanup) {
       // 执行回调前 清理上一次的 副作用函数 side effect
       cleanup()
@@ -46,12 +112,34 @@ export function watch(source, cb, options) {
     }
     // 运行 effect 得到新值，不能直接执行 getter，否则依赖不会收集
     const newValue = effect.run()
+    // 值没有变化就不执行回调，多数据源只要有一项变化就执行
+    const changed =
+      isFirstRun ||
+      deep ||
+      forceTrigger ||
+      (isMultiSource
+        ? newValue.some((v, i) => hasChange(v, oldValue[i]))
+        : hasChange(newValue, oldValue))
+    if (!changed) {
+      return
+    }
+    isFirstRun = false
     cb(newValue, oldValue, onCleanup)
     oldValue = newValue
   }
 
+  // watch 所在的作用域，effect 会被收集到这个作用域中
+  const scope = getCurrentScope()
+
   function stop() {
     effect.stop()
+    // 自己停止的，从作用域中移除，不然作用域会一直引用着这个已经停止的 effect
+    if (scope) {
+      const i = scope.effects.indexOf(effect)
+      if (i > -1) {
+        scope.effects.splice(i, 1)
+      }
+    }
   }
 
   /**
@@ -59,18 +147,51 @@ export function watch(source, cb, options) {
    * 因为 effect 没有返回 effect.run() 的返回值, 也就拿不到newValue和oldValue，导致无法调用cb
    */
   const effect = new ReactiveEffect(getter)
-  effect.scheduler = job
+  // 停止的时候也要清理副作用，作用域 stop 的时候也会执行
+  effect.onStop = () => {
+    if (cleanup) {
+      cleanup()
+      cleanup = null
+    }
+  }
+  if (__DEV__) {
+    effect.onTrack = onTrack
+    effect.onTrigger = onTrigger
+  }
+  // 传了 scheduler 就由它决定 job 什么时候执行，否则同步执行
+  effect.scheduler = scheduler ? () => scheduler(job, false) : job
 
-  // immediate 实现
-  if (immediate) {
-    job()
+  if (cb) {
+    // immediate 实现
+    if (immediate) {
+      job()
+    } else {
+      oldValue = effect.run()
+      isFirstRun = false
+    }
+  } else if (scheduler) {
+    // watchEffect 第一次执行也交给 scheduler，flush: 'post' 要等渲染完再执行
+    scheduler(job, true)
   } else {
-    oldValue = effect.run()
+    effect.run()
   }
 
-  return () => {
-    stop()
-  }
+  /**
+   * 返回的函数可以直接调用停止监听
+   * pause 暂停之后，数据变化不会执行回调，resume 的时候如果期间有变化，再执行一次
+   */
+  return Object.assign(() => stop(), {
+    stop,
+    pause: effect.pause.bind(effect),
+    resume: effect.resume.bind(effect),
+  })
+}
+
+function warnInvalidSource(s) {
+  console.warn(
+    `watch 的数据源只能是 ref、reactive 对象、getter 函数，或者它们组成的数组，传入的是`,
+    s,
+  )
 }
 
 function traverse(value, depth = Infinity, seen = new Set()) {
@@ -85,8 +206,16 @@ function traverse(value, depth = Infinity, seen = new Set()) {
   seen.add(value)
   depth--
 
-  for (const key in value) {
-    traverse(value[key], depth, seen)
+  if (isMap(value) || isSet(value)) {
+    // 集合用 forEach 遍历，会收集 ITERATE_KEY
+    value.forEach(v => {
+      traverse(v, depth, seen)
+    })
+  } else {
+    // for...in 会走 ownKeys，新增、删除属性也能监听到
+    for (const key in value) {
+      traverse(value[key], depth, seen)
+    }
   }
 
   return value
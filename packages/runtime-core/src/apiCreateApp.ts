@@ -0,0 +1,153 @@
+import { isFunction } from '@vue/shared'
+import { createVNode } from './vnode'
+import { appWarn } from './warning'
+import { callWithErrorHandling, ErrorCodes } from './errorHandling'
+
+/**
+ * 创建应用上下文，整个应用共享，所有组件实例通过 instance.appContext 访问
+ */
+export function createAppContext() {
+  return {
+    app: null,
+    config: {
+      // 全局属性，在 render 中可以通过 this 访问
+      globalProperties: {},
+      // 组件的 setup render 生命周期钩子等出错的时候调用
+      errorHandler: undefined,
+      // 警告的时候调用，不再打印到控制台
+      warnHandler: undefined,
+    },
+    // 全局注册的组件
+    components: {},
+    // 全局注册的指令
+    directives: {},
+    // app.provide 提供的数据，根组件的 provides 以它为原型
+    provides: Object.create(null),
+  }
+}
+
+/**
+ * 创建 createApp 函数，需要用到 renderer 的 render 方法
+ * @param render 渲染函数
+ */
+export function createAppAPI(render) {
+  return function createApp(rootComponent, rootProps = null) {
+    const context = createAppContext()
+    // 安装过的插件，重复安装会跳过
+    const installedPlugins = new WeakSet()
+    let isMounted = false
+
+    const app = (context.app = {
+      _component: rootComponent,
+      _props: rootProps,
+      _container: null,
+      _context: context,
+      _instance: null,
+
+      get config() {
+        return context.config
+      },
+
+      /**
+       * 安装插件
+       * 插件是一个有 install 方法的对象，或者直接是一个函数
+       */
+      use(plugin, ...options) {
+        if (installedPlugins.has(plugin)) {
+          appWarn(context, `插件已经安装过了`)
+        } else if (plugin && isFunction(plugin.install)) {
+          installedPlugins.add(plugin)
+          callWithErrorHandling(
+            plugin.install,
+            null,
+            ErrorCodes.APP_PLUGIN,
+            [app, ...options],
+            context,
+          )
+        } else if (isFunction(plugin)) {
+          installedPlugins.add(plugin)
+          callWithErrorHandling(
+            plugin,
+            null,
+            ErrorCodes.APP_PLUGIN,
+            [app, ...options],
+            context,
+          )
+        } else {
+          appWarn(context, `插件必须是一个函数，或者有 install 方法的对象`)
+        }
+        return app
+      },
+
+      /**
+       * 注册全局组件，只传 name 就是获取
+       */
+      component(name, component?) {
+        if (!component) {
+          return context.components[name]
+        }
+        if (context.components[name]) {
+          appWarn(context, `组件 "${name}" 已经注册过了`)
+        }
+        context.components[name] = component
+        return app
+      },
+
+      /**
+       * 注册全局指令，只传 name 就是获取
+       */
+      directive(name, directive?) {
+        if (!directive) {
+          return context.directives[name]
+        }
+        if (context.directives[name]) {
+          appWarn(context, `指令 "${name}" 已经注册过了`)
+        }
+        context.directives[name] = directive
+        return app
+      },
+
+      /**
+       * 提供应用级别的数据，所有组件都可以 inject
+       */
+      provide(key, value) {
+        context.provides[key] = value
+        return app
+      },
+
+      /**
+       * 挂载应用
+       * @param rootContainer 容器元素
+       */
+      mount(rootContainer) {
+        if (isMounted) {
+          appWarn(context, `应用已经挂载过了`)
+          return
+        }
+        const vnode = createVNode(rootComponent, rootProps, null)
+        // 根组件的虚拟节点带上应用上下文，子组件都从父组件继承
+        vnode.appContext = context
+        render(vnode, rootContainer)
+        isMounted = true
+        app._container = rootContainer
+        app._instance = vnode.component
+        return vnode.component.proxy
+      },
+
+      /**
+       * 卸载应用
+       */
+      unmount() {
+        if (!isMounted) {
+          appWarn(context, `应用还没有挂载`)
+          return
+        }
+        render(null, app._container)
+        isMounted = false
+        app._instance = null
+      },
+    })
+
+    return app
+  }
+}
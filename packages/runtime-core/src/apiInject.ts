@@ -0,0 +1,53 @@
+import { isFunction } from '@vue/shared'
+import { currentInstance } from './component'
+import { warn } from './warning'
+
+/**
+ * 提供数据给后代组件
+ * 第一次调用的时候，以父组件的 provides 为原型创建一个自己的 provides
+ * 这样后代组件通过原型链可以找到所有祖先提供的数据，自己提供的同名数据会覆盖祖先的
+ * @param key 数据的 key，可以是字符串或者 Symbol
+ * @param value 提供的值，ref 和 reactive 对象原样传下去，保持响应式
+ */
+export function provide(key, value) {
+  if (!currentInstance) {
+    warn(`provide() 只能在 setup 中调用`)
+    return
+  }
+  let provides = currentInstance.provides
+  const parentProvides = currentInstance.parent
+    ? currentInstance.parent.provides
+    : Object.getPrototypeOf(provides)
+  if (provides === parentProvides) {
+    // 还在用父组件的 provides，创建一个自己的，不然会改到父组件上
+    provides = currentInstance.provides = Object.create(parentProvides)
+  }
+  provides[key] = value
+}
+
+/**
+ * 注入祖先组件提供的数据
+ * 从父组件的 provides 开始找，自己 provide 的数据自己注入不到
+ * @param key 数据的 key
+ * @param defaultValue 找不到的时候的默认值
+ * @param treatDefaultAsFactory 为 true 的时候，defaultValue 是工厂函数，调用它拿到默认值
+ */
+export function inject(key, defaultValue?, treatDefaultAsFactory = false) {
+  const instance = currentInstance
+  if (!instance) {
+    warn(`inject() 只能在 setup 中调用`)
+    return
+  }
+  const provides = instance.parent
+    ? instance.parent.provides
+    : instance.appContext?.provides
+  if (provides && key in provides) {
+    return provides[key]
+  }
+  if (arguments.length > 1) {
+    return treatDefaultAsFactory && isFunction(defaultValue)
+      ? defaultValue.call(instance.proxy)
+      : defaultValue
+  }
+  warn(`inject() 没有找到 "${String(key)}"`)
+}
@@ -0,0 +1,65 @@
+import { currentInstance, setCurrentInstance } from './component'
+import { warn } from './warning'
+import { callWithErrorHandling, ErrorCodes } from './errorHandling'
+
+export enum LifecycleHooks {
+  BEFORE_MOUNT = 'bm',
+  MOUNTED = 'm',
+  BEFORE_UPDATE = 'bu',
+  UPDATED = 'u',
+  BEFORE_UNMOUNT = 'bum',
+  UNMOUNTED = 'um',
+  RENDER_TRACKED = 'rtc',
+  RENDER_TRIGGERED = 'rtg',
+}
+
+/**
+ * 把钩子注册到组件实例上
+ * 钩子执行的时候，把当前实例设置回 target，这样在钩子里面也能拿到 getCurrentInstance()
+ * @param type 钩子的类型
+ * @param hook 用户传入的钩子函数
+ * @param target 要注册的组件实例，默认是当前正在 setup 的实例
+ */
+function injectHook(type, hook, target = currentInstance) {
+  if (!target) {
+    warn(`生命周期钩子只能在 setup 中调用`)
+    return
+  }
+  const hooks = target[type] || (target[type] = [])
+  const wrappedHook = (...args) => {
+    const prevInstance = currentInstance
+    setCurrentInstance(target)
+    try {
+      return callWithErrorHandling(
+        hook,
+        target,
+        ErrorCodes.LIFECYCLE_HOOK,
+        args,
+      )
+    } finally {
+      setCurrentInstance(prevInstance)
+    }
+  }
+  hooks.push(wrappedHook)
+}
+
+function createHook(type) {
+  return (hook, target = currentInstance) => injectHook(type, hook, target)
+}
+
+// 挂载之前，子树还没有渲染
+export const onBeforeMount = createHook(LifecycleHooks.BEFORE_MOUNT)
+// 挂载之后，整棵树都已经插入到 dom 中
+export const onMounted = createHook(LifecycleHooks.MOUNTED)
+// 更新之前，还没有重新 render
+export const onBeforeUpdate = createHook(LifecycleHooks.BEFORE_UPDATE)
+// 更新之后，dom 已经更新完了
+export const onUpdated = createHook(LifecycleHooks.UPDATED)
+// 卸载之前，子树还在
+export const onBeforeUnmount = createHook(LifecycleHooks.BEFORE_UNMOUNT)
+// 卸载之后，子树已经移除了
+export const onUnmounted = createHook(LifecycleHooks.UNMOUNTED)
+// 调试用，render 收集依赖的时候调用，可以看到 render 读取了哪些数据
+export const onRenderTracked = createHook(LifecycleHooks.RENDER_TRACKED)
+// 调试用，render 因为数据变化要重新执行的时候调用，可以看到是哪个数据变了
+export const onRenderTriggered = createHook(LifecycleHooks.RENDER_TRIGGERED)
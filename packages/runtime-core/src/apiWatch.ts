@@ -0,0 +1,63 @@
+import { watch as baseWatch } from '@vue/reactivity'
+import { queuePostFlushCb, queuePreFlushCb } from './scheduler'
+import { getCurrentInstance } from './component'
+
+/**
+ * 组件中使用的 watch，在 @vue/reactivity 的 watch 的基础上支持 flush 选项
+ * 1. pre 默认值，组件更新之前执行，回调中拿到的是更新之前的 dom
+ * 2. post 组件更新之后执行，回调中可以拿到更新之后的 dom
+ * 3. sync 数据变化立刻同步执行
+ * 同一轮中多次修改数据，pre 和 post 的回调只会执行一次
+ */
+export function watch(source, cb, options = {}) {
+  return doWatch(source, cb, options)
+}
+
+/**
+ * 立即执行一次 effect，收集依赖，依赖变化重新执行
+ * effect 的参数是 onCleanup，用来注册清理函数
+ */
+export function watchEffect(effect, options = {}) {
+  return doWatch(effect, null, options)
+}
+
+/**
+ * flush: 'post' 的 watchEffect
+ */
+export function watchPostEffect(effect) {
+  return doWatch(effect, null, { flush: 'post' })
+}
+
+/**
+ * flush: 'sync' 的 watchEffect
+ */
+export function watchSyncEffect(effect) {
+  return doWatch(effect, null, { flush: 'sync' })
+}
+
+function doWatch(source, cb, options) {
+  const { flush = 'pre' } = options
+  const baseWatchOptions = { ...options }
+  // 在组件中创建的 watch，回调出错的时候交给组件所在应用的 errorHandler
+  const instance = getCurrentInstance()
+
+  if (flush === 'post') {
+    baseWatchOptions.scheduler = job => {
+      job.i = instance
+      queuePostFlushCb(job)
+    }
+  } else if (flush === 'pre') {
+    baseWatchOptions.scheduler = (job, isFirstRun) => {
+      if (isFirstRun) {
+        // 第一次直接执行，收集依赖
+        job()
+      } else {
+        job.i = instance
+        queuePreFlushCb(job)
+      }
+    }
+  }
+  // sync 不传 scheduler，同步执行
+
+  return baseWatch(source, cb, baseWatchOptions)
+}
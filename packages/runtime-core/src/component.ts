@@ -0,0 +1,222 @@
+import { EffectScope, proxyRefs, shallowReadonly } from '@vue/reactivity'
+import { hasOwn, isFunction, isObject, ShapeFlags } from '@vue/shared'
+import { initProps } from './componentProps'
+import { initSlots } from './componentSlots'
+import { emit } from './componentEmits'
+import { warn } from './warning'
+import { callWithErrorHandling, ErrorCodes } from './errorHandling'
+
+// 组件实例的唯一标识，父组件一定比子组件先创建，所以父组件的 uid 更小
+let uid = 0
+
+/**
+ * 当前正在执行 setup 的组件实例
+ * 生命周期钩子等 API 在 setup 中调用的时候，通过它知道要注册到哪个组件上
+ */
+export let currentInstance = null
+
+export function getCurrentInstance() {
+  return currentInstance
+}
+
+export function setCurrentInstance(instance) {
+  currentInstance = instance
+}
+
+/**
+ * 创建组件实例
+ * @param vnode 组件的虚拟节点
+ * @param parent 父组件实例
+ */
+export function createComponentInstance(vnode, parent) {
+  // 应用上下文，根组件从虚拟节点上拿（createApp 挂载的时候设置），子组件直接继承父组件的
+  const appContext = (parent ? parent.appContext : vnode.appContext) || null
+  const instance = {
+    uid: uid++,
+    // 组件的定义，就是用户写的那个对象 { setup, render }，函数式组件就是那个函数
+    type: vnode.type,
+    // 组件的虚拟节点
+    vnode,
+    // 父组件实例
+    parent,
+    appContext,
+    /**
+     * 提供给后代组件的数据
+     * 默认直接用父组件的，自己调用 provide 的时候，再以父组件的为原型创建一个新的
+     * 根组件用应用上下文的 provides
+     */
+    provides: parent
+      ? parent.provides
+      : Object.create(appContext ? appContext.provides : null),
+    // 组件接收到的 props
+    props: {},
+    // 没有声明为 props 的属性
+    attrs: {},
+    // default 工厂函数算出来的默认值，父组件重新渲染的时候接着用，不用每次都创建新的对象
+    propsDefaults: {},
+    // 插槽
+    slots: {},
+    // setup 返回的对象
+    setupState: {},
+    // render 函数
+    render: null,
+    // render 函数的上下文，通过 proxy 访问 setupState props 等
+    ctx: {},
+    proxy: null,
+    // 子树，就是 render 返回的虚拟节点
+    subTree: null,
+    // 是否已经挂载
+    isMounted: false,
+    // 是否已经卸载
+    isUnmounted: false,
+    // 组件更新时的新虚拟节点，父组件更新的时候会赋值
+    next: null,
+    // 组件的作用域，setup 中创建的 watch computed 和渲染 effect 都收集在这里，卸载的时候一起停止
+    // 独立的作用域，不会被父组件 setup 时的作用域收集
+    scope: new EffectScope(true),
+    // 渲染的 effect
+    effect: null,
+    // 更新组件的函数，就是 effect.run
+    update: null,
+    // 放到调度队列中的更新任务，需要更新的时候才调用 update
+    job: null,
+    emit: null,
+    // 生命周期钩子，onXxx 注册的函数都存在这里
+    bm: null, // beforeMount
+    m: null, // mounted
+    bu: null, // beforeUpdate
+    u: null, // updated
+    bum: null, // beforeUnmount
+    um: null, // unmounted
+    rtc: null, // renderTracked
+    rtg: null, // renderTriggered
+  }
+  instance.ctx = { _: instance }
+  instance.emit = emit.bind(null, instance)
+  return instance
+}
+
+/**
+ * 初始化组件
+ * 1. 初始化 props
+ * 2. 初始化插槽
+ * 3. 执行 setup，拿到 render，函数式组件没有 setup，本身就是 render
+ */
+export function setupComponent(instance) {
+  initProps(instance, instance.vnode.props)
+  initSlots(instance, instance.vnode.children)
+  if (instance.vnode.shapeFlag & ShapeFlags.STATEFUL_COMPONENT) {
+    setupStatefulComponent(instance)
+  }
+}
+
+const publicPropertiesMap = {
+  $: instance => instance,
+  $el: instance => instance.vnode.el,
+  $props: instance => instance.props,
+  $attrs: instance => instance.attrs,
+  $slots: instance => instance.slots,
+  $emit: instance => instance.emit,
+  $parent: instance => instance.parent?.proxy,
+}
+
+/**
+ * render 函数中 this 的代理
+ * 访问顺序：setupState => props => ctx => $el $props 等公共属性 => app.config.globalProperties
+ */
+const PublicInstanceProxyHandlers = {
+  get({ _: instance }, key) {
+    const { setupState, props, ctx, appContext } = instance
+    if (hasOwn(setupState, key)) {
+      return setupState[key]
+    }
+    if (hasOwn(props, key)) {
+      return props[key]
+    }
+    if (key !== '_' && hasOwn(ctx, key)) {
+      return ctx[key]
+    }
+    const publicGetter = publicPropertiesMap[key]
+    if (publicGetter) {
+      return publicGetter(instance)
+    }
+    const globalProperties = appContext?.config.globalProperties
+    if (globalProperties && hasOwn(globalProperties, key)) {
+      return globalProperties[key]
+    }
+  },
+  set({ _: instance }, key, value) {
+    const { setupState, props } = instance
+    if (hasOwn(setupState, key)) {
+      setupState[key] = value
+      return true
+    }
+    if (hasOwn(props, key)) {
+      warn(`props 是只读的，不能修改 ${String(key)}`)
+      return true
+    }
+    instance.ctx[key] = value
+    return true
+  },
+}
+
+function setupStatefulComponent(instance) {
+  const Component = instance.type
+  instance.proxy = new Proxy(instance.ctx, PublicInstanceProxyHandlers)
+
+  const { setup } = Component
+  if (setup) {
+    const setupContext = createSetupContext(instance)
+    // setup 执行期间，把当前实例暴露出去，onMounted 等钩子才知道注册到哪里
+    const prevInstance = currentInstance
+    setCurrentInstance(instance)
+    let setupResult
+    try {
+      setupResult = instance.scope.run(() =>
+        callWithErrorHandling(
+          setup,
+          instance,
+          ErrorCodes.SETUP_FUNCTION,
+          // props 给到用户的时候是只读的，不能在子组件里修改
+          [shallowReadonly(instance.props), setupContext],
+        ),
+      )
+    } finally {
+      setCurrentInstance(prevInstance)
+    }
+    handleSetupResult(instance, setupResult)
+  }
+
+  if (!instance.render) {
+    // setup 没有返回 render 函数，就用组件上的 render
+    instance.render = Component.render
+  }
+}
+
+/**
+ * setup 的第二个参数
+ */
+function createSetupContext(instance) {
+  return {
+    get attrs() {
+      return instance.attrs
+    },
+    get slots() {
+      return instance.slots
+    },
+    emit: instance.emit,
+  }
+}
+
+/**
+ * 处理 setup 的返回值
+ * 1. 返回函数，就是 render 函数
+ * 2. 返回对象，就是 setupState，在 render 中通过 this 访问，ref 会自动解包
+ */
+function handleSetupResult(instance, setupResult) {
+  if (isFunction(setupResult)) {
+    instance.render = setupResult
+  } else if (isObject(setupResult)) {
+    instance.setupState = proxyRefs(setupResult)
+  }
+}
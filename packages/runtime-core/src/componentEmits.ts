@@ -0,0 +1,23 @@
+import { camelize, toHandlerKey } from '@vue/shared'
+import { callWithErrorHandling, ErrorCodes } from './errorHandling'
+
+/**
+ * 触发组件的事件
+ * emit('change-value', 1) => 调用 props.onChangeValue(1)
+ * @param instance 组件实例
+ * @param event 事件名
+ * @param args 参数
+ */
+export function emit(instance, event, ...args) {
+  const props = instance.vnode.props || {}
+  const handler =
+    props[toHandlerKey(event)] || props[toHandlerKey(camelize(event))]
+  if (handler) {
+    callWithErrorHandling(
+      handler,
+      instance,
+      ErrorCodes.COMPONENT_EVENT_HANDLER,
+      args,
+    )
+  }
+}
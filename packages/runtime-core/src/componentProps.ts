@@ -0,0 +1,200 @@
+import { shallowReactive } from '@vue/reactivity'
+import {
+  camelize,
+  hasOwn,
+  isArray,
+  isFunction,
+  isObject,
+  ShapeFlags,
+} from '@vue/shared'
+import { warn } from './warning'
+
+/**
+ * 把组件声明的 props 统一成对象的形式
+ * 1. ['msg', 'user-name'] => { msg: {}, userName: {} }
+ * 2. { msg: String } => { msg: { type: String } }
+ * 3. { msg: [String, Number] } => { msg: { type: [String, Number] } }
+ * 4. { msg: { type: String, required: true, default: '', validator } } 原样保留
+ * 没有声明返回 null
+ * @param comp 组件的定义
+ */
+export function normalizePropsOptions(comp) {
+  const raw = comp.props
+  if (!raw) return null
+  const normalized = {}
+  if (isArray(raw)) {
+    for (const key of raw) {
+      normalized[camelize(key)] = {}
+    }
+  } else {
+    for (const key in raw) {
+      const opt = raw[key]
+      normalized[camelize(key)] =
+        isArray(opt) || isFunction(opt) ? { type: opt } : opt || {}
+    }
+  }
+  return normalized
+}
+
+/**
+ * 初始化组件的 props
+ * @param instance 组件实例
+ * @param rawProps 虚拟节点上的 props
+ */
+export function initProps(instance, rawProps) {
+  const props = {}
+  const attrs = {}
+  setFullProps(instance, rawProps, props, attrs)
+  if (instance.vnode.shapeFlag & ShapeFlags.STATEFUL_COMPONENT) {
+    /**
+     * props 是浅层响应式的，父组件更新 props 的时候，用到这个 prop 的 effect 才会重新执行
+     * props 里面的对象是父组件传过来的，是不是响应式的由父组件决定，所以不需要深层代理
+     */
+    instance.props = shallowReactive(props)
+  } else {
+    // 函数式组件没有声明 props，那所有的属性都是 props，也都是 attrs
+    instance.props = instance.type.props ? props : attrs
+  }
+  instance.attrs = attrs
+}
+
+/**
+ * 父组件更新的时候，更新子组件的 props 和 attrs
+ * 1. 新的全部设置上去，值没变的不会触发更新
+ * 2. 老的有，新的没有，删掉
+ */
+export function updateProps(instance, rawProps) {
+  const nextProps = {}
+  const nextAttrs = {}
+  setFullProps(instance, rawProps, nextProps, nextAttrs)
+  if (instance.props !== instance.attrs) {
+    syncObject(instance.props, nextProps)
+  }
+  syncObject(instance.attrs, nextAttrs)
+}
+
+/**
+ * 把虚拟节点上的 props 分到 props 和 attrs 中
+ * 1. 声明了的放到 props，没传的用默认值，然后做校验
+ * 2. 没声明的放到 attrs
+ */
+function setFullProps(instance, rawProps, props, attrs) {
+  const options = normalizePropsOptions(instance.type)
+  if (rawProps) {
+    for (const key in rawProps) {
+      // key 是给 diff 用的，不属于 props
+      if (key === 'key') continue
+      const value = rawProps[key]
+      const camelKey = camelize(key)
+      if (options && hasOwn(options, camelKey)) {
+        props[camelKey] = value
+      } else {
+        attrs[key] = value
+      }
+    }
+  }
+
+  if (options) {
+    for (const key in options) {
+      props[key] = resolvePropValue(instance, options[key], props, key)
+    }
+    validateProps(options, props)
+  }
+}
+
+/**
+ * 处理默认值和 Boolean 类型
+ * 1. 没传值，有 default，default 是函数并且类型不是 Function，就调用它拿到默认值（对象数组的默认值要用工厂函数）
+ *    工厂函数的结果缓存在实例上，一直没传值的话，父组件重新渲染也还是同一个对象，子组件对它的修改不会丢
+ * 2. 类型是 Boolean，没传值也没有默认值，就是 false
+ */
+function resolvePropValue(instance, opt, props, key) {
+  const { propsDefaults } = instance
+  let value = props[key]
+  if (value === undefined && hasOwn(opt, 'default')) {
+    const defaultValue = opt.default
+    if (opt.type !== Function && isFunction(defaultValue)) {
+      // 从传了值变成没传值的时候才调用工厂函数
+      value = hasOwn(propsDefaults, key)
+        ? propsDefaults[key]
+        : (propsDefaults[key] = defaultValue(props))
+    } else {
+      value = defaultValue
+    }
+  } else {
+    // 传了值，之前的默认值不要了，下次没传值的时候重新创建
+    delete propsDefaults[key]
+  }
+  if (value === undefined && getTypes(opt.type).includes(Boolean)) {
+    value = false
+  }
+  return value
+}
+
+/**
+ * 校验 props，校验不通过只警告，不影响渲染
+ * 1. required 必须传
+ * 2. type 类型要对
+ * 3. validator 自定义校验
+ */
+function validateProps(options, props) {
+  for (const key in options) {
+    const opt = options[key]
+    const value = props[key]
+    if (value == null) {
+      if (opt.required) {
+        warn(`缺少必传的 prop: "${key}"`)
+      }
+      continue
+    }
+    const types = getTypes(opt.type)
+    if (types.length && !types.some(type => assertType(value, type))) {
+      warn(
+        `prop "${key}" 类型错误，期望的是 ${types.map(getTypeName).join(' | ')}，实际传入的是`,
+        value,
+      )
+      continue
+    }
+    if (opt.validator && !opt.validator(value, props)) {
+      warn(`prop "${key}" 没有通过自定义的 validator 校验，传入的是`, value)
+    }
+  }
+}
+
+function getTypes(type) {
+  if (type == null || type === true) return []
+  return isArray(type) ? type : [type]
+}
+
+function getTypeName(type) {
+  return type.name || String(type)
+}
+
+/**
+ * 判断值是不是这个类型
+ * String Number Boolean Function Symbol BigInt 用 typeof，Object 要是普通对象，Array 用 isArray，其他的用 instanceof
+ */
+function assertType(value, type) {
+  const name = getTypeName(type)
+  if (/^(String|Number|Boolean|Function|Symbol|BigInt)$/.test(name)) {
+    return typeof value === name.toLowerCase()
+  }
+  if (name === 'Object') {
+    return isObject(value) && !isArray(value)
+  }
+  if (name === 'Array') {
+    return isArray(value)
+  }
+  return value instanceof type
+}
+
+function syncObject(target, source) {
+  for (const key in source) {
+    target[key] = source[key]
+  }
+  for (const key in target) {
+    if (!hasOwn(source, key)) {
+      delete target[key]
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { hasChange, isOn, ShapeFlags } from '@vue/shared'
+import { cloneVNode, Comment, createVNode, normalizeVNode } from './vnode'
+import { warn } from './warning'
+import { handleError, ErrorCodes } from './errorHandling'
+
+/**
+ * 当前正在执行 render 的组件实例
+ * resolveComponent withDirectives 等在 render 中调用的 API 通过它拿到组件实例
+ */
+export let currentRenderingInstance = null
+
+/**
+ * 执行组件的 render 函数，拿到子树
+ * 1. 有状态组件，render 中的 this 指向 proxy
+ * 2. 函数式组件，直接调用这个函数 (props, { attrs, slots, emit })
+ * 返回值统一转成虚拟节点（数组会变成 Fragment）
+ * 最后把 attrs 透传到根节点上，组件设置了 inheritAttrs: false 就不透传
+ * render 出错了交给 errorHandler，渲染一个注释节点占位
+ */
+export function renderComponentRoot(instance) {
+  const { type, vnode, render, proxy, props, attrs, slots, emit } = instance
+  let result
+  let fallthroughAttrs
+  const prevInstance = currentRenderingInstance
+  currentRenderingInstance = instance
+  try {
+    if (vnode.shapeFlag & ShapeFlags.STATEFUL_COMPONENT) {
+      result = render.call(proxy, proxy)
+      fallthroughAttrs = attrs
+    } else {
+      result = type(props, { attrs, slots, emit })
+      // 函数式组件没有声明 props 的话，所有属性都是 attrs，只透传 class style 和事件
+      fallthroughAttrs = type.props ? attrs : getFunctionalFallthrough(attrs)
+    }
+  } catch (err) {
+    handleError(err, instance, ErrorCodes.RENDER_FUNCTION)
+    return createVNode(Comment, null, null)
+  } finally {
+    currentRenderingInstance = prevInstance
+  }
+  let root = normalizeVNode(result)
+
+  if (type.inheritAttrs !== false && Object.keys(fallthroughAttrs).length) {
+    if (root.shapeFlag & (ShapeFlags.ELEMENT | ShapeFlags.COMPONENT)) {
+      // 合并到根节点的 props 上，挂载和更新的时候走 patchProp
+      root = cloneVNode(root, fallthroughAttrs)
+    } else {
+      warn(
+        `组件的根节点不是元素或者组件，attrs 没办法透传：${Object.keys(fallthroughAttrs).join(', ')}`,
+      )
+    }
+  }
+  return root
+}
+
+function getFunctionalFallthrough(attrs) {
+  const res = {}
+  for (const key in attrs) {
+    if (key === 'class' || key === 'style' || isOn(key)) {
+      res[key] = attrs[key]
+    }
+  }
+  return res
+}
+
+/**
+ * 判断组件是否需要更新
+ * 1. 有插槽，插槽函数每次都是新的，没办法判断有没有变化，直接更新
+ * 2. props 有变化才更新
+ * @param n1 老的组件虚拟节点
+ * @param n2 新的组件虚拟节点
+ */
+export function shouldUpdateComponent(n1, n2) {
+  if (n1.children || n2.children) {
+    return true
+  }
+  const prevProps = n1.props || {}
+  const nextProps = n2.props || {}
+  const prevKeys = Object.keys(prevProps)
+  const nextKeys = Object.keys(nextProps)
+  if (prevKeys.length !== nextKeys.length) {
+    return true
+  }
+  for (const key of nextKeys) {
+    if (hasChange(nextProps[key], prevProps[key])) {
+      return true
+    }
+  }
+  return false
+}
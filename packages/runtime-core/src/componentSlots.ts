@@ -0,0 +1,51 @@
+import { isArray, isFunction, ShapeFlags } from '@vue/shared'
+import { normalizeVNode } from './vnode'
+
+/**
+ * 初始化插槽
+ * 1. children 是对象，每个属性都是一个插槽
+ * 2. children 是数组、文本，都当成默认插槽
+ * @param instance 组件实例
+ * @param children 组件虚拟节点的 children
+ */
+export function initSlots(instance, children) {
+  const slots = (instance.slots = {})
+  normalizeSlots(instance.vnode, children, slots)
+}
+
+/**
+ * 父组件更新的时候，更新插槽
+ * 不能直接替换 instance.slots，setup 中可能已经拿到了 slots 的引用
+ */
+export function updateSlots(instance, children) {
+  const { slots } = instance
+  for (const key in slots) {
+    delete slots[key]
+  }
+  normalizeSlots(instance.vnode, children, slots)
+}
+
+function normalizeSlots(vnode, children, slots) {
+  if (children == null) return
+  if (vnode.shapeFlag & ShapeFlags.SLOTS_CHILDREN) {
+    for (const key in children) {
+      const value = children[key]
+      if (isFunction(value)) {
+        // 插槽函数，作用域插槽会传 props 进来
+        slots[key] = (...args) => normalizeSlotValue(value(...args))
+      } else if (value != null) {
+        // 直接传了虚拟节点或者数组，包一层函数
+        slots[key] = () => normalizeSlotValue(value)
+      }
+    }
+  } else {
+    slots.default = () => normalizeSlotValue(children)
+  }
+}
+
+/**
+ * 插槽的返回值统一转成虚拟节点数组
+ */
+function normalizeSlotValue(value) {
+  return isArray(value) ? value.map(normalizeVNode) : [normalizeVNode(value)]
+}
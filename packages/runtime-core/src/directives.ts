@@ -0,0 +1,54 @@
+import { isFunction } from '@vue/shared'
+import { currentRenderingInstance } from './componentRenderUtils'
+import { callWithErrorHandling, ErrorCodes } from './errorHandling'
+
+/**
+ * 给元素的虚拟节点加上指令
+ * @param vnode 元素的虚拟节点
+ * @param directives [[指令, 值, 参数, 修饰符], ...]
+ * @example withDirectives(h('input'), [[vFocus, true]])
+ */
+export function withDirectives(vnode, directives) {
+  const instance = currentRenderingInstance
+  const bindings = vnode.dirs || (vnode.dirs = [])
+  for (const [dir, value, arg, modifiers = {}] of directives) {
+    if (!dir) continue
+    bindings.push({
+      // 指令是函数的话，就是 mounted 和 updated 都执行它
+      dir: isFunction(dir) ? { mounted: dir, updated: dir } : dir,
+      instance: instance?.proxy,
+      value,
+      oldValue: undefined,
+      arg,
+      modifiers,
+    })
+  }
+  return vnode
+}
+
+/**
+ * 执行指令的钩子
+ * @param vnode 新的虚拟节点
+ * @param prevVNode 老的虚拟节点，更新的时候用它拿到 oldValue
+ * @param name 钩子的名字 created beforeMount mounted beforeUpdate updated beforeUnmount unmounted
+ */
+export function invokeDirectiveHook(vnode, prevVNode, name) {
+  const bindings = vnode.dirs
+  const oldBindings = prevVNode?.dirs
+  for (let i = 0; i < bindings.length; i++) {
+    const binding = bindings[i]
+    if (oldBindings) {
+      // 新老节点上的指令数量可能不一样，老节点上没有对应的指令就是 undefined
+      binding.oldValue = oldBindings[i]?.value
+    }
+    const hook = binding.dir[name]
+    if (hook) {
+      callWithErrorHandling(
+        hook,
+        binding.instance?.$,
+        ErrorCodes.DIRECTIVE_HOOK,
+        [vnode.el, binding, vnode, prevVNode],
+      )
+    }
+  }
+}
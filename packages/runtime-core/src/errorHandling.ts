@@ -0,0 +1,50 @@
+/**
+ * 出错的位置，会作为第三个参数传给 app.config.errorHandler
+ */
+export enum ErrorCodes {
+  SETUP_FUNCTION = 'setup function',
+  RENDER_FUNCTION = 'render function',
+  LIFECYCLE_HOOK = 'lifecycle hook',
+  COMPONENT_EVENT_HANDLER = 'component event handler',
+  DIRECTIVE_HOOK = 'directive hook',
+  APP_PLUGIN = 'app plugin',
+  SCHEDULER = 'scheduler flush',
+}
+
+/**
+ * 执行用户的函数，出错了交给 handleError 处理，不会打断渲染
+ * @param fn 用户的函数
+ * @param instance 所在的组件实例
+ * @param type 出错的位置
+ * @param args 参数
+ * @param appContext 应用上下文，没有组件实例的时候（比如安装插件）用它找 errorHandler
+ */
+export function callWithErrorHandling(fn, instance, type, args?, appContext?) {
+  try {
+    return args ? fn(...args) : fn()
+  } catch (err) {
+    handleError(err, instance, type, appContext)
+  }
+}
+
+/**
+ * 处理错误
+ * 配置了 app.config.errorHandler 就交给它，没有就打印到控制台
+ */
+export function handleError(
+  err,
+  instance,
+  type,
+  appContext = instance?.appContext,
+) {
+  const errorHandler = appContext?.config.errorHandler
+  if (errorHandler) {
+    callWithErrorHandling(errorHandler, null, null, [
+      err,
+      instance?.proxy ?? null,
+      type,
+    ])
+    return
+  }
+  console.error(err)
+}
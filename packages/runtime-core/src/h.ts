@@ -12,6 +12,13 @@ import { createVNode, isVNode } from './vnode'
  * 6. h('div', { class: 'container' }, h('span', 'hello world'))
  * 7. h('div', { class: 'container' }, h('span', 'hello'), h('span', 'world'))
  * 8. h('div', { class: 'container' },[h('span', 'hello'), h('span', 'world')]) 和 7 一个意思
+ * ------
+ * 9. h('div', ['hello', h('span', 'world'), 1]) 数组里面的字符串、数字会被转换成 Text 虚拟节点
+ * 10. h(Fragment, [h('p', 'a'), h('p', 'b')]) 渲染多个根节点
+ * ------
+ * 11. h(Comp, null, { default: () => h('p'), header: props => h('h1', props.title) }) 第三个参数是插槽
+ * 12. h(Comp, null, () => h('p')) 函数就是默认插槽
+ * 13. h(Comp, null, [h('p', 'a'), h('p', 'b')]) 数组和虚拟节点也会被当成默认插槽
  */
 
 export function h(type, propsOrChildren?, children?) {
@@ -53,4 +60,4 @@ export function h(type, propsOrChildren?, children?) {
     // 要是只传了 type
     return createVNode(type, propsOrChildren, children)
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,26 @@
+import { isArray } from '@vue/shared'
+import { Comment, createVNode, Fragment } from '../vnode'
+
+/**
+ * 在 render 中渲染插槽
+ * 插槽的内容用 Fragment 包起来，key 用插槽名，切换插槽的时候直接替换
+ * 插槽没传或者内容都是注释节点，就渲染 fallback 后备内容
+ * @param slots 插槽对象，就是 this.$slots 或者 ctx.slots
+ * @param name 插槽名
+ * @param props 传给作用域插槽的 props
+ * @param fallback 后备内容，返回虚拟节点或者数组
+ * @example renderSlot(this.$slots, 'header', { title }, () => h('h1', '默认标题'))
+ */
+export function renderSlot(slots, name, props?, fallback?) {
+  const slot = slots[name]
+  const content = slot ? slot(props || {}) : null
+  const validContent = content?.some(child => child.type !== Comment)
+    ? content
+    : null
+  let children = validContent
+  if (!children) {
+    const fallbackContent = fallback ? fallback() : []
+    children = isArray(fallbackContent) ? fallbackContent : [fallbackContent]
+  }
+  return createVNode(Fragment, { key: props?.key ?? `_${name}` }, children)
+}
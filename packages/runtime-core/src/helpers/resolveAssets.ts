@@ -0,0 +1,48 @@
+import { camelize, capitalize } from '@vue/shared'
+import { currentRenderingInstance } from '../componentRenderUtils'
+import { warn } from '../warning'
+
+/**
+ * 在 render 中通过名字拿到注册的组件
+ * 先找组件自己 components 中注册的，再找 app.component 全局注册的
+ * 找不到就返回名字本身，当成普通元素渲染
+ * @example h(resolveComponent('MyButton'))
+ */
+export function resolveComponent(name: string) {
+  return resolveAsset('components', name) || name
+}
+
+/**
+ * 在 render 中通过名字拿到注册的指令
+ * @example withDirectives(h('input'), [[resolveDirective('focus')]])
+ */
+export function resolveDirective(name: string) {
+  return resolveAsset('directives', name)
+}
+
+/**
+ * 按照 原名 => 驼峰 => 首字母大写的驼峰 的顺序查找
+ */
+function resolveAsset(type, name) {
+  const instance = currentRenderingInstance
+  if (!instance) {
+    warn(`resolveComponent 和 resolveDirective 只能在 render 中调用`)
+    return
+  }
+  const res =
+    resolve(instance.type[type], name) ||
+    resolve(instance.appContext?.[type], name)
+  if (!res) {
+    warn(`没有找到 ${type === 'components' ? '组件' : '指令'} "${name}"`)
+  }
+  return res
+}
+
+function resolve(registry, name) {
+  if (!registry) return
+  return (
+    registry[name] ||
+    registry[camelize(name)] ||
+    registry[capitalize(camelize(name))]
+  )
+}
@@ -2,4 +2,25 @@ export * from '@vue/reactivity'
 
 export * from './renderer'
 export * from './h'
-export * from './vnode'
\ No newline at end of file
+export * from './vnode'
+export * from './helpers/renderSlot'
+export * from './apiLifecycle'
+export { getCurrentInstance } from './component'
+export * from './apiInject'
+export * from './apiCreateApp'
+export * from './directives'
+export * from './helpers/resolveAssets'
+export { ErrorCodes } from './errorHandling'
+export { warn, appWarn } from './warning'
+export {
+  nextTick,
+  queueJob,
+  queuePreFlushCb,
+  queuePostFlushCb,
+} from './scheduler'
+export {
+  watch,
+  watchEffect,
+  watchPostEffect,
+  watchSyncEffect,
+} from './apiWatch'
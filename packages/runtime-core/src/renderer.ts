@@ -1,5 +1,23 @@
-import { ShapeFlags } from '@vue/shared'
-import { isSameVNodeType } from './vnode'
+import { invokeArrayFns, ShapeFlags } from '@vue/shared'
+import { ReactiveEffect } from '@vue/reactivity'
+import { Comment, Fragment, isSameVNodeType, Text } from './vnode'
+import { createComponentInstance, setupComponent } from './component'
+import { updateProps } from './componentProps'
+import { updateSlots } from './componentSlots'
+import {
+  flushPostFlushCbs,
+  flushPreFlushCbs,
+  invalidateJob,
+  queueJob,
+  queuePostFlushCb,
+} from './scheduler'
+import { createAppAPI } from './apiCreateApp'
+import { invokeDirectiveHook } from './directives'
+import { popWarningContext, pushWarningContext } from './warning'
+import {
+  renderComponentRoot,
+  shouldUpdateComponent,
+} from './componentRenderUtils'
 export function createRenderer(options) {
   // 提供虚拟节点 渲染到页面上的功能
   console.log(options)
@@ -9,6 +27,11 @@ export function createRenderer(options) {
     insert: hostInsert,
     remove: hostRemove,
     patchProp: hostPatchProp,
+    nextSibling: hostNextSibling,
+    createText: hostCreateText,
+    setText: hostSetText,
+    createComment: hostCreateComment,
+    parentNode: hostParentNode,
   } = options
   // renderer.ts
   const render = (vnode, container) => {
@@ -25,6 +48,25 @@ export function createRenderer(options) {
 
       const { type, shapeFlag, children } = vnode
 
+      if (shapeFlag & ShapeFlags.COMPONENT) {
+        // 组件卸载它的子树
+        unmountComponent(vnode.component)
+        return
+      }
+
+      if (type === Fragment) {
+        // Fragment 没有自己的元素，卸载 children，再把开始和结束两个锚点删掉
+        unmountChildren(children)
+        hostRemove(vnode.el)
+        hostRemove(vnode.anchor)
+        return
+      }
+
+      const { dirs } = vnode
+      if (dirs) {
+        invokeDirectiveHook(vnode, null, 'beforeUnmount')
+      }
+
       if (shapeFlag & ShapeFlags.ARRAY_CHILDREN) {
         // 子节点是数组
 
@@ -33,28 +75,77 @@ export function createRenderer(options) {
 
       // 移除 dom 元素
       hostRemove(vnode.el)
+
+      if (dirs) {
+        queuePostFlushCb(() => invokeDirectiveHook(vnode, null, 'unmounted'))
+      }
     }
 
-    const mountChildren = (children, el) => {
+    /**
+     * 移动节点到 anchor 前面
+     * Fragment 要把开始锚点、所有的 children、结束锚点都移过去
+     */
+    const move = (vnode, container, anchor = null) => {
+      if (vnode.shapeFlag & ShapeFlags.COMPONENT) {
+        // 组件移动它的子树
+        move(vnode.component.subTree, container, anchor)
+        return
+      }
+      if (vnode.type === Fragment) {
+        hostInsert(vnode.el, container, anchor)
+        const children = vnode.children
+        for (let i = 0; i < children.length; i++) {
+          move(children[i], container, anchor)
+        }
+        hostInsert(vnode.anchor, container, anchor)
+        return
+      }
+      hostInsert(vnode.el, container, anchor)
+    }
+
+    /**
+     * 拿到虚拟节点在 dom 中的下一个节点，Fragment 要从结束锚点往后找
+     */
+    const getNextHostNode = vnode => {
+      if (vnode.shapeFlag & ShapeFlags.COMPONENT) {
+        return getNextHostNode(vnode.component.subTree)
+      }
+      return hostNextSibling(vnode.type === Fragment ? vnode.anchor : vnode.el)
+    }
+
+    const mountChildren = (
+      children,
+      el,
+      anchor = null,
+      parentComponent = null,
+    ) => {
       for (let i = 0; i < children.length; i++) {
         const child = children[i]
-        // 递归挂载子节点
-        patch(null, child, el)
+        // 递归挂载子节点，都插到同一个锚点前面，顺序不会乱
+        patch(null, child, el, anchor, parentComponent)
       }
     }
 
     // 挂载节点
-    const mountElement = (vnode, container) => {
+    const mountElement = (
+      vnode,
+      container,
+      anchor = null,
+      parentComponent = null,
+    ) => {
       /**
        * 1. 创建一个 dom 节点
        * 2. 设置它的 props
        * 3. 挂载它的子节点
        * 4. 把 el 插入到 container 中
        */
-      const { type, props, children, shapeFlag } = vnode
+      const { type, props, children, shapeFlag, dirs } = vnode
       // 创建 dom 元素 type = div p span
       const el = hostCreateElement(type)
       vnode.el = el
+      if (dirs) {
+        invokeDirectiveHook(vnode, null, 'created')
+      }
       if (props) {
         for (const key in props) {
           hostPatchProp(el, key, null, props[key])
@@ -67,13 +158,33 @@ export function createRenderer(options) {
         hostSetElementText(el, children)
       } else if (shapeFlag & ShapeFlags.ARRAY_CHILDREN) {
         // 子节点是数组
-        mountChildren(children, el)
+        mountChildren(children, el, null, parentComponent)
+      }
+      if (dirs) {
+        invokeDirectiveHook(vnode, null, 'beforeMount')
+      }
+      // 把 el 插入到 container 中，有锚点就插到锚点前面
+      hostInsert(el, container, anchor)
+      if (dirs) {
+        // mounted 要等元素插入到页面中
+        queuePostFlushCb(() => invokeDirectiveHook(vnode, null, 'mounted'))
       }
-      // 把 el 插入到 container 中
-      hostInsert(el, container)
     }
 
-    const patchChildren = (n1, n2) => {
+    /**
+     * 更新 children
+     * @param n1 老节点
+     * @param n2 新节点
+     * @param el children 所在的父元素
+     * @param anchor children 的锚点，Fragment 的 children 要插到结束锚点前面
+     */
+    const patchChildren = (
+      n1,
+      n2,
+      el,
+      anchor = null,
+      parentComponent = null,
+    ) => {
       // - 新的子元素是文本
       //   - 老节点是数组，卸载老的 children，将新的文本设置成 children
       //   - 老的是文本，直接替换
@@ -87,7 +198,6 @@ export function createRenderer(options) {
       //   - 老的是数组，卸载老的
       //   - 老的是 null，俩个哥们都是 null，不用干活
 
-      const el = n2.el
       const prevShapeFlag = n1.shapeFlag
       const shapeFlag = n2.shapeFlag
       if (shapeFlag & ShapeFlags.TEXT_CHILDREN) {
@@ -111,7 +221,7 @@ export function createRenderer(options) {
           hostSetElementText(el, '')
           if (shapeFlag & ShapeFlags.ARRAY_CHILDREN) {
             // 新的是数组
-            mountChildren(n2.children, el)
+            mountChildren(n2.children, el, anchor, parentComponent)
           }
           // todo 新的是null 不用管？
         } else {
@@ -120,7 +230,14 @@ export function createRenderer(options) {
           if (prevShapeFlag & ShapeFlags.ARRAY_CHILDREN) {
             // 老的是数组
             if (shapeFlag & ShapeFlags.ARRAY_CHILDREN) {
-              // todo 全量diff
+              // 新的也是数组，全量 diff
+              patchKeyedChildren(
+                n1.children,
+                n2.children,
+                el,
+                anchor,
+                parentComponent,
+              )
             } else {
               // 新的是null
               // 卸载老的数组
@@ -130,7 +247,7 @@ export function createRenderer(options) {
             // 老的是null
             if (shapeFlag & ShapeFlags.ARRAY_CHILDREN) {
               // 新的是数组，挂载新的
-              mountChildren(n2.children, el)
+              mountChildren(n2.children, el, anchor, parentComponent)
             }
             // 新的是null 不用管
           }
@@ -138,6 +255,196 @@ export function createRenderer(options) {
       }
     }
 
+    /**
+     * 全量 diff，老的和新的都是数组
+     * 1. 头部对比：从头开始，相同类型的节点直接 patch，遇到不同的停下
+     * 2. 尾部对比：从尾开始，相同类型的节点直接 patch，遇到不同的停下
+     * 3. 老的比完了，新的还有，挂载新的
+     * 4. 新的比完了，老的还有，卸载老的
+     * 5. 乱序：用 key 找到可复用的老节点，patch 之后，按最长递增子序列做最少的移动
+     * @param c1 老的 children
+     * @param c2 新的 children
+     * @param container 父元素
+     * @param parentAnchor 父级的锚点，插到最后的时候用它，Fragment 的 children 不能直接插到 container 最后
+     */
+    const patchKeyedChildren = (
+      c1,
+      c2,
+      container,
+      parentAnchor = null,
+      parentComponent = null,
+    ) => {
+      // 开始对比的下标
+      let i = 0
+      // 老的 children 最后一个元素的下标
+      let e1 = c1.length - 1
+      // 新的 children 最后一个元素的下标
+      let e2 = c2.length - 1
+
+      /**
+       * 1. 头部对比
+       * c1 => [a, b]
+       * c2 => [a, b, c]
+       * 对比完之后 i = 2, e1 = 1, e2 = 2
+       */
+      while (i <= e1 && i <= e2) {
+        const n1 = c1[i]
+        const n2 = c2[i]
+        if (isSameVNodeType(n1, n2)) {
+          // 相同类型，直接更新
+          patch(n1, n2, container, null, parentComponent)
+        } else {
+          break
+        }
+        i++
+      }
+
+      /**
+       * 2. 尾部对比
+       * c1 => [a, b]
+       * c2 => [c, a, b]
+       * 对比完之后 i = 0, e1 = -1, e2 = 0
+       */
+      while (i <= e1 && i <= e2) {
+        const n1 = c1[e1]
+        const n2 = c2[e2]
+        if (isSameVNodeType(n1, n2)) {
+          patch(n1, n2, container, null, parentComponent)
+        } else {
+          break
+        }
+        e1--
+        e2--
+      }
+
+      if (i > e1) {
+        /**
+         * 3. 老的比完了，新的还有，i 到 e2 之间的都是新增的
+         * 插入的位置是 e2 的下一个节点，如果下一个节点不存在，就插到最后
+         */
+        const nextPos = e2 + 1
+        const anchor = nextPos < c2.length ? c2[nextPos].el : parentAnchor
+        while (i <= e2) {
+          patch(null, c2[i], container, anchor, parentComponent)
+          i++
+        }
+      } else if (i > e2) {
+        /**
+         * 4. 新的比完了，老的还有，i 到 e1 之间的都要卸载
+         */
+        while (i <= e1) {
+          unmount(c1[i])
+          i++
+        }
+      } else {
+        /**
+         * 5. 乱序对比
+         * c1 => [a, b, c, d, e]
+         * c2 => [a, c, d, b, f, e]
+         * 头尾对比完之后 i = 1, e1 = 3, e2 = 4
+         * 中间部分 老的：[b, c, d] 新的：[c, d, b, f]
+         */
+        const s1 = i // 老的开始下标
+        const s2 = i // 新的开始下标
+
+        // 新节点的 key 和下标的映射 key => index
+        const keyToNewIndexMap = new Map()
+        for (let j = s2; j <= e2; j++) {
+          const n2 = c2[j]
+          if (n2.key != null) {
+            keyToNewIndexMap.set(n2.key, j)
+          }
+        }
+
+        // 需要处理的新节点数量
+        const toBePatched = e2 - s2 + 1
+        // 已经 patch 过的数量，如果已经大于等于 toBePatched，剩下的老节点都是多余的
+        let patched = 0
+        /**
+         * 新节点在老的 children 中对应的下标
+         * 存的是 老下标 + 1，0 表示这个新节点在老的里面没有，需要挂载
+         */
+        const newIndexToOldIndexMap = new Array(toBePatched).fill(0)
+        // 是否需要移动，如果新下标一直是递增的，就不用移动
+        let moved = false
+        // 目前为止最大的新下标
+        let maxNewIndexSoFar = 0
+
+        // 遍历老的中间部分，找到可以复用的节点，找不到的卸载
+        for (let j = s1; j <= e1; j++) {
+          const n1 = c1[j]
+          if (patched >= toBePatched) {
+            // 新的都处理完了，老的剩下的直接卸载
+            unmount(n1)
+            continue
+          }
+
+          let newIndex
+          if (n1.key != null) {
+            newIndex = keyToNewIndexMap.get(n1.key)
+          } else {
+            // 没有 key，只能挨个找一个还没有被复用的同类型节点
+            for (let k = s2; k <= e2; k++) {
+              if (
+                newIndexToOldIndexMap[k - s2] === 0 &&
+                isSameVNodeType(n1, c2[k])
+              ) {
+                newIndex = k
+                break
+              }
+            }
+          }
+
+          if (newIndex === undefined) {
+            // 新的里面没有，卸载
+            unmount(n1)
+          } else {
+            newIndexToOldIndexMap[newIndex - s2] = j + 1
+            if (newIndex >= maxNewIndexSoFar) {
+              maxNewIndexSoFar = newIndex
+            } else {
+              // 新下标比之前的小，说明顺序变了，需要移动
+              moved = true
+            }
+            patch(n1, c2[newIndex], container, null, parentComponent)
+            patched++
+          }
+        }
+
+        /**
+         * 最长递增子序列里的节点，相对顺序没有变，不用移动
+         * 只有需要移动的时候才计算
+         */
+        const increasingNewIndexSequence = moved
+          ? getSequence(newIndexToOldIndexMap)
+          : []
+        let seqIndex = increasingNewIndexSequence.length - 1
+
+        /**
+         * 倒序遍历新的中间部分，因为插入需要用后一个节点作为锚点，
+         * 倒序的话，后一个节点一定已经在正确的位置上了
+         */
+        for (let j = toBePatched - 1; j >= 0; j--) {
+          const newIndex = s2 + j
+          const n2 = c2[newIndex]
+          const anchor =
+            newIndex + 1 < c2.length ? c2[newIndex + 1].el : parentAnchor
+          if (newIndexToOldIndexMap[j] === 0) {
+            // 老的里面没有，挂载新的
+            patch(null, n2, container, anchor, parentComponent)
+          } else if (moved) {
+            if (seqIndex < 0 || j !== increasingNewIndexSequence[seqIndex]) {
+              // 不在最长递增子序列里，移动到锚点前面
+              move(n2, container, anchor)
+            } else {
+              // 在最长递增子序列里，不用动
+              seqIndex--
+            }
+          }
+        }
+      }
+    }
+
     const patchProps = (el, oldProps, newProps) => {
       /**
        * 1. 把老的 props 全删掉
@@ -158,7 +465,7 @@ export function createRenderer(options) {
       }
     }
 
-    const patchElement = (n1, n2) => {
+    const patchElement = (n1, n2, parentComponent = null) => {
       /**
        * 1. 复用 dom 元素
        * 2. 更新 props
@@ -166,6 +473,10 @@ export function createRenderer(options) {
        */
       // 复用 dom 元素 每次进来，都拿上一次的 el，保存到最新的虚拟节点上 n2.el
       const el = (n2.el = n1.el)
+      const { dirs } = n2
+      if (dirs) {
+        invokeDirectiveHook(n2, n1, 'beforeUpdate')
+      }
 
       // 更新 props
       const oldProps = n1.props
@@ -173,7 +484,250 @@ export function createRenderer(options) {
       patchProps(el, oldProps, newProps)
 
       // 更新 children
-      patchChildren(n1, n2)
+      patchChildren(n1, n2, el, null, parentComponent)
+
+      if (dirs) {
+        queuePostFlushCb(() => invokeDirectiveHook(n2, n1, 'updated'))
+      }
+    }
+
+    /**
+     * 处理元素，n1 不存在就挂载，存在就更新
+     */
+    const processElement = (n1, n2, container, anchor, parentComponent) => {
+      if (n1 == null) {
+        // 挂载元素
+        mountElement(n2, container, anchor, parentComponent)
+      } else {
+        // 更新元素
+        patchElement(n1, n2, parentComponent)
+      }
+    }
+
+    /**
+     * 处理文本节点
+     */
+    const processText = (n1, n2, container, anchor, parentComponent) => {
+      if (n1 == null) {
+        // 挂载文本节点
+        const el = (n2.el = hostCreateText(n2.children))
+        hostInsert(el, container, anchor)
+      } else {
+        // 复用文本节点，文本不一样才更新
+        const el = (n2.el = n1.el)
+        if (n1.children !== n2.children) {
+          hostSetText(el, n2.children)
+        }
+      }
+    }
+
+    /**
+     * 处理注释节点，注释节点只是占位，不需要更新
+     */
+    const processComment = (n1, n2, container, anchor, parentComponent) => {
+      if (n1 == null) {
+        const el = (n2.el = hostCreateComment(n2.children || ''))
+        hostInsert(el, container, anchor)
+      } else {
+        n2.el = n1.el
+      }
+    }
+
+    /**
+     * 处理 Fragment
+     * Fragment 本身没有元素，用两个空文本节点标记开始和结束的位置
+     * children 都挂载到结束锚点前面
+     */
+    const processFragment = (n1, n2, container, anchor, parentComponent) => {
+      const fragmentStartAnchor = (n2.el = n1 ? n1.el : hostCreateText(''))
+      const fragmentEndAnchor = (n2.anchor = n1
+        ? n1.anchor
+        : hostCreateText(''))
+      if (n1 == null) {
+        hostInsert(fragmentStartAnchor, container, anchor)
+        hostInsert(fragmentEndAnchor, container, anchor)
+        mountChildren(
+          n2.children,
+          container,
+          fragmentEndAnchor,
+          parentComponent,
+        )
+      } else {
+        patchChildren(n1, n2, container, fragmentEndAnchor, parentComponent)
+      }
+    }
+
+    /**
+     * 处理组件，n1 不存在就挂载，存在就更新
+     */
+    const processComponent = (n1, n2, container, anchor, parentComponent) => {
+      if (n1 == null) {
+        mountComponent(n2, container, anchor, parentComponent)
+      } else {
+        updateComponent(n1, n2)
+      }
+    }
+
+    /**
+     * 挂载组件
+     * 1. 创建组件实例
+     * 2. 初始化组件，执行 setup
+     * 3. 创建渲染 effect，执行 render 拿到子树，挂载子树
+     */
+    const mountComponent = (vnode, container, anchor, parentComponent) => {
+      const instance = (vnode.component = createComponentInstance(
+        vnode,
+        parentComponent,
+      ))
+      pushWarningContext(instance)
+      setupComponent(instance)
+      popWarningContext()
+      setupRenderEffect(instance, container, anchor)
+    }
+
+    /**
+     * 父组件更新导致的子组件更新
+     * props 变了就让子组件带着新的虚拟节点重新渲染，没变就只复用实例和 el
+     */
+    const updateComponent = (n1, n2) => {
+      const instance = (n2.component = n1.component)
+      if (shouldUpdateComponent(n1, n2)) {
+        // 把新的虚拟节点存到 next 上，更新的时候用它更新 props
+        instance.next = n2
+        // 子组件自己的状态可能也变了，已经入队了，这里直接更新，把队列中的删掉，避免更新两次
+        invalidateJob(instance.job)
+        instance.update()
+      } else {
+        n2.el = n1.el
+        instance.vnode = n2
+      }
+    }
+
+    /**
+     * 更新组件之前，把新的虚拟节点和 props 同步到实例上
+     */
+    const updateComponentPreRender = (instance, nextVNode) => {
+      instance.vnode = nextVNode
+      instance.next = null
+      updateProps(instance, nextVNode.props)
+      updateSlots(instance, nextVNode.children)
+      // props 更新之后，监听 props 的 flush: 'pre' 的 watch 入队了，要在子组件 render 之前执行
+      flushPreFlushCbs()
+    }
+
+    /**
+     * 组件的渲染放到 ReactiveEffect 中执行
+     * render 中访问的响应式数据会收集这个 effect，数据变了只重新渲染这个组件
+     */
+    const setupRenderEffect = (instance, container, anchor) => {
+      const componentUpdateFn = () => {
+        pushWarningContext(instance)
+        try {
+          updateComponentRender()
+        } finally {
+          popWarningContext()
+        }
+      }
+
+      const updateComponentRender = () => {
+        if (!instance.isMounted) {
+          // 挂载
+          const { bm, m } = instance
+          if (bm) {
+            // beforeMount
+            invokeArrayFns(bm)
+          }
+          const subTree = (instance.subTree = renderComponentRoot(instance))
+          patch(null, subTree, container, anchor, instance)
+          // 组件的 el 就是子树的 el
+          instance.vnode.el = subTree.el
+          instance.isMounted = true
+          if (m) {
+            // mounted 要等整棵树都挂载完
+            queuePostFlushCb(m)
+          }
+        } else {
+          // 更新
+          let { next, vnode } = instance
+          if (next) {
+            // 父组件传了新的虚拟节点过来
+            updateComponentPreRender(instance, next)
+          } else {
+            // 自身状态变化，虚拟节点还是原来的
+            next = vnode
+          }
+          const { bu, u } = instance
+          if (bu) {
+            // beforeUpdate
+            invokeArrayFns(bu)
+          }
+          const prevTree = instance.subTree
+          const nextTree = (instance.subTree = renderComponentRoot(instance))
+          // 子树的位置可能已经变了，容器和锚点都从老的子树上拿
+          patch(
+            prevTree,
+            nextTree,
+            hostParentNode(prevTree.el),
+            getNextHostNode(prevTree),
+            instance,
+          )
+          next.el = nextTree.el
+          if (u) {
+            // updated 要等 dom 都更新完
+            queuePostFlushCb(u)
+          }
+        }
+      }
+
+      const effect = (instance.effect = instance.scope.run(
+        () => new ReactiveEffect(componentUpdateFn),
+      ))
+      const update = (instance.update = () => {
+        // 已经卸载了就不用再更新了，effect 停止之后调用 run 还是会执行 fn
+        if (!instance.isUnmounted) {
+          effect.run()
+        }
+      })
+      // 自身状态变化触发的更新任务，依赖的 computed 重新计算之后值没变的话，不用重新渲染
+      // 用 uid 排序，父组件先更新；i 是所在的组件实例，出错的时候用
+      const job = (instance.job = Object.assign(
+        () => effect.isDirty() && update(),
+        { id: instance.uid, i: instance },
+      ))
+      // 放到队列中，同步修改多次只更新一次
+      effect.scheduler = () => queueJob(job)
+      if (__DEV__) {
+        // 查看依赖关系图的时候，知道是哪个组件的 render
+        effect.name = `${instance.type.name || 'Anonymous'} render`
+        // onRenderTracked onRenderTriggered 注册的钩子
+        effect.onTrack = instance.rtc
+          ? e => invokeArrayFns(instance.rtc, e)
+          : undefined
+        effect.onTrigger = instance.rtg
+          ? e => invokeArrayFns(instance.rtg, e)
+          : undefined
+      }
+      update()
+    }
+
+    /**
+     * 卸载组件：停止作用域（渲染 effect、setup 中创建的 watch 等），卸载子树
+     */
+    const unmountComponent = instance => {
+      const { bum, um } = instance
+      if (bum) {
+        // beforeUnmount
+        invokeArrayFns(bum)
+      }
+      instance.scope.stop()
+      // 已经入队的更新任务不用再执行了
+      invalidateJob(instance.job)
+      unmount(instance.subTree)
+      instance.isUnmounted = true
+      if (um) {
+        // unmounted
+        queuePostFlushCb(um)
+      }
     }
 
     /**
@@ -181,24 +735,46 @@ export function createRenderer(options) {
      * @param n1 老节点，之前的，如果有，表示要个 n2 做 diff，更新，如果没有，表示直接挂载 n2
      * @param n2 新节点
      * @param container 要挂载的容器
+     * @param anchor 插入的锚点，挂载的时候插到它前面
+     * @param parentComponent 父组件实例
      */
-    const patch = (n1, n2, container) => {
+    const patch = (
+      n1,
+      n2,
+      container,
+      anchor = null,
+      parentComponent = null,
+    ) => {
       if (n1 === n2) {
         // 如果两次传递了同一个虚拟节点，啥都不干
         return
       }
 
       if (n1 && !isSameVNodeType(n1, n2)) {
-        // 如果两个节点不是同一个类型，那就卸载 n1 直接挂载 n2    unmount(n1)
+        // 如果两个节点不是同一个类型，那就卸载 n1 直接挂载 n2
+        // 卸载之前先拿到 n1 的下一个兄弟节点，n2 挂载到这个位置，保证位置不变
+        anchor = getNextHostNode(n1)
+        unmount(n1)
         n1 = null
       }
 
-      if (n1 == null) {
-        // 挂载元素
-        mountElement(n2, container)
-      } else {
-        // 更新元素
-        patchElement(n1, n2)
+      const { type, shapeFlag } = n2
+      switch (type) {
+        case Text:
+          processText(n1, n2, container, anchor, parentComponent)
+          break
+        case Comment:
+          processComment(n1, n2, container, anchor, parentComponent)
+          break
+        case Fragment:
+          processFragment(n1, n2, container, anchor, parentComponent)
+          break
+        default:
+          if (shapeFlag & ShapeFlags.ELEMENT) {
+            processElement(n1, n2, container, anchor, parentComponent)
+          } else if (shapeFlag & ShapeFlags.COMPONENT) {
+            processComponent(n1, n2, container, anchor, parentComponent)
+          }
       }
     }
 
@@ -220,8 +796,66 @@ export function createRenderer(options) {
     }
 
     container._vnode = vnode
+    // 整棵树都渲染完了，执行 mounted 等后置回调
+    flushPreFlushCbs()
+    flushPostFlushCbs()
   }
   return {
     render,
+    createApp: createAppAPI(render),
+  }
+}
+
+/**
+ * 求最长递增子序列，返回的是下标
+ * 贪心 + 二分查找，再通过前驱节点回溯出正确的序列
+ * 值为 0 的表示新增的节点，不参与计算
+ * @param arr [5, 3, 4, 0] => [1, 2]
+ */
+function getSequence(arr) {
+  // 每个位置的前驱节点下标，用于最后回溯
+  const p = arr.slice()
+  // 递增序列，存的是 arr 的下标
+  const result = [0]
+  const len = arr.length
+  let start
+  let end
+  let middle
+  for (let i = 0; i < len; i++) {
+    const current = arr[i]
+    if (current !== 0) {
+      const lastIndex = result[result.length - 1]
+      if (arr[lastIndex] < current) {
+        // 比最后一个大，直接放到后面，记录前驱
+        p[i] = lastIndex
+        result.push(i)
+        continue
+      }
+      // 二分查找，找到第一个比 current 大的位置，替换掉
+      start = 0
+      end = result.length - 1
+      while (start < end) {
+        middle = (start + end) >> 1
+        if (arr[result[middle]] < current) {
+          start = middle + 1
+        } else {
+          end = middle
+        }
+      }
+      if (current < arr[result[start]]) {
+        if (start > 0) {
+          p[i] = result[start - 1]
+        }
+        result[start] = i
+      }
+    }
+  }
+  // 通过前驱节点回溯，修正 result
+  let l = result.length
+  let last = result[l - 1]
+  while (l-- > 0) {
+    result[l] = last
+    last = p[last]
   }
+  return result
 }
@@ -0,0 +1,215 @@
+import { warn } from './warning'
+import { callWithErrorHandling, ErrorCodes } from './errorHandling'
+
+/**
+ * 组件更新的任务队列，按照组件的 uid 排序，保证父组件先于子组件更新
+ */
+const queue = []
+// 正在执行的任务下标
+let flushIndex = 0
+
+/**
+ * 等待执行的前置回调，在组件更新之前执行，watch 的 flush: 'pre' 用
+ */
+const pendingPreFlushCbs = []
+
+/**
+ * 等待执行的后置回调，mounted updated unmounted 这些钩子要等整棵树都渲染到 dom 上之后再执行
+ */
+const pendingPostFlushCbs = []
+
+// 是否已经安排了一次刷新，避免重复创建微任务
+let isFlushPending = false
+// 是否正在刷新
+let isFlushing = false
+
+const resolvedPromise = Promise.resolve()
+// 当前这一轮刷新的 promise，nextTick 等它完成
+let currentFlushPromise = null
+
+/**
+ * 同一个任务在一轮刷新中最多执行的次数，超过了说明在更新中又触发了自己的更新，陷入了死循环
+ */
+const RECURSION_LIMIT = 100
+
+/**
+ * 等到下一次 dom 更新之后执行
+ * @param fn 回调函数，不传的话可以 await nextTick()
+ */
+export function nextTick(fn?) {
+  const p = currentFlushPromise || resolvedPromise
+  return fn ? p.then(fn) : p
+}
+
+/**
+ * 添加组件更新的任务
+ * 同一个任务只会入队一次，同步修改多次数据，组件只会更新一次
+ * @param job 任务，有 id 的按照 id 插入到对应的位置
+ */
+export function queueJob(job) {
+  if (queue.includes(job, isFlushing ? flushIndex + 1 : 0)) {
+    return
+  }
+  if (job.id == null) {
+    queue.push(job)
+  } else {
+    queue.splice(findInsertionIndex(job.id), 0, job)
+  }
+  queueFlush()
+}
+
+/**
+ * 二分查找任务插入的位置，只在还没有执行的任务中找
+ */
+function findInsertionIndex(id) {
+  // 没有在刷新的时候，整个队列都还没执行，要从 0 开始找
+  let start = isFlushing ? flushIndex + 1 : 0
+  let end = queue.length
+  while (start < end) {
+    const middle = (start + end) >>> 1
+    const middleJobId = getId(queue[middle])
+    if (middleJobId <= id) {
+      start = middle + 1
+    } else {
+      end = middle
+    }
+  }
+  return start
+}
+
+function getId(job) {
+  return job.id == null ? Infinity : job.id
+}
+
+/**
+ * 把任务从队列中删掉
+ * 父组件更新的时候会直接更新子组件，子组件之前入队的任务就不需要了
+ */
+export function invalidateJob(job) {
+  const i = queue.indexOf(job)
+  // 只删还没执行的，没有在刷新的时候队列中的任务都还没执行
+  if (i > (isFlushing ? flushIndex : -1)) {
+    queue.splice(i, 1)
+  }
+}
+
+/**
+ * 添加前置回调，组件更新之前执行
+ */
+export function queuePreFlushCb(cb) {
+  queueCb(cb, pendingPreFlushCbs)
+}
+
+/**
+ * 添加后置回调，所有组件都更新完之后执行
+ * @param cb 一个函数或者函数数组（生命周期钩子是数组）
+ */
+export function queuePostFlushCb(cb) {
+  queueCb(cb, pendingPostFlushCbs)
+}
+
+function queueCb(cb, pendingQueue) {
+  if (Array.isArray(cb)) {
+    pendingQueue.push(...cb)
+  } else {
+    pendingQueue.push(cb)
+  }
+  queueFlush()
+}
+
+/**
+ * 在微任务中刷新队列，同步代码中的多次修改合并成一次
+ */
+function queueFlush() {
+  if (!isFlushing && !isFlushPending) {
+    isFlushPending = true
+    currentFlushPromise = resolvedPromise.then(() => flushJobs())
+  }
+}
+
+/**
+ * 执行所有的前置回调
+ */
+export function flushPreFlushCbs(seen = new Map()) {
+  while (pendingPreFlushCbs.length) {
+    const cbs = [...new Set(pendingPreFlushCbs)]
+    pendingPreFlushCbs.length = 0
+    for (let i = 0; i < cbs.length; i++) {
+      if (checkRecursiveUpdates(seen, cbs[i])) continue
+      runJob(cbs[i])
+    }
+  }
+}
+
+/**
+ * 执行所有的后置回调
+ * 执行过程中可能又添加了新的回调（比如 mounted 中修改了状态），循环到队列清空为止
+ */
+export function flushPostFlushCbs(seen = new Map()) {
+  while (pendingPostFlushCbs.length) {
+    // 去重，同一个回调只执行一次
+    const cbs = [...new Set(pendingPostFlushCbs)]
+    pendingPostFlushCbs.length = 0
+    for (let i = 0; i < cbs.length; i++) {
+      if (checkRecursiveUpdates(seen, cbs[i])) continue
+      runJob(cbs[i])
+    }
+  }
+}
+
+/**
+ * 刷新队列
+ * 1. 前置回调
+ * 2. 组件更新，按照 id 从小到大
+ * 3. 后置回调
+ * 后置回调中如果又修改了数据，会再刷新一轮
+ */
+function flushJobs(seen = new Map()) {
+  isFlushPending = false
+  isFlushing = true
+  try {
+    flushPreFlushCbs(seen)
+    for (flushIndex = 0; flushIndex < queue.length; flushIndex++) {
+      const job = queue[flushIndex]
+      if (checkRecursiveUpdates(seen, job)) continue
+      runJob(job)
+    }
+  } finally {
+    flushIndex = 0
+    queue.length = 0
+    flushPostFlushCbs(seen)
+    isFlushing = false
+    currentFlushPromise = null
+    if (
+      queue.length ||
+      pendingPreFlushCbs.length ||
+      pendingPostFlushCbs.length
+    ) {
+      flushJobs(seen)
+    }
+  }
+}
+
+/**
+ * 执行任务，出错了交给 handleError，一个任务报错不会把后面还没执行的任务丢掉
+ * 任务的 i 是它所在的组件实例，用来找 app.config.errorHandler
+ */
+function runJob(job) {
+  callWithErrorHandling(job, job.i, ErrorCodes.SCHEDULER)
+}
+
+/**
+ * 检查任务是不是在一轮刷新中执行了太多次
+ * 超过 RECURSION_LIMIT 次就跳过这个任务，并给出警告，避免页面卡死
+ */
+function checkRecursiveUpdates(seen, fn) {
+  const count = seen.get(fn) || 0
+  if (count > RECURSION_LIMIT) {
+    warn(
+      `超过了最大递归更新次数 ${RECURSION_LIMIT}，可能是在组件更新或者 watch 回调中修改了它依赖的数据，导致无限循环`,
+    )
+    return true
+  }
+  seen.set(fn, count + 1)
+  return false
+}
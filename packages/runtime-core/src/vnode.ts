@@ -1,11 +1,28 @@
 import {
   isArray,
   isFunction,
+  isNumber,
   isObject,
+  isOn,
   isString,
   ShapeFlags,
 } from '@vue/shared'
 
+/**
+ * 文本节点的类型，h(Text, 'hello') 或者数组里面的字符串、数字
+ */
+export const Text = Symbol('v-txt')
+
+/**
+ * 注释节点的类型，数组里面的 null、undefined、boolean 会变成注释节点占位
+ */
+export const Comment = Symbol('v-cmt')
+
+/**
+ * 片段的类型，本身不渲染任何元素，只渲染它的 children，可以用来返回多个根节点
+ */
+export const Fragment = Symbol('v-fgt')
+
 /**
  * 判断是不是一个虚拟节点，根据 __v_isVNode 属性
  * @param value
@@ -15,8 +32,8 @@ export function isVNode(value) {
 }
 /**
  * 判断两个虚拟节点是不是相同类型
- * @param n1 
- * @param n2 
+ * @param n1
+ * @param n2
  */
 export function isSameVNodeType(n1, n2) {
   return n1.type === n2.type && n1.key === n2.key
@@ -36,21 +53,36 @@ export function createVNode(type, props, children) {
   if (isString(type)) {
     // div span p h1
     shapeFlag = ShapeFlags.ELEMENT
+  } else if (isObject(type)) {
+    // 有状态的组件 { setup, render }
+    shapeFlag = ShapeFlags.STATEFUL_COMPONENT
+  } else if (isFunction(type)) {
+    // 函数式组件 (props, ctx) => vnode
+    shapeFlag = ShapeFlags.FUNCTIONAL_COMPONENT
   }
-  if (isString(children)) {
-    shapeFlag = ShapeFlags.TEXT_CHILDREN
+  if (type === Fragment && (isString(children) || isNumber(children))) {
+    // Fragment 没有自己的元素，不能设置文本，包成一个文本节点
+    children = [createVNode(Text, null, String(children))]
+    shapeFlag |= ShapeFlags.ARRAY_CHILDREN
+  } else if (isString(children) || isNumber(children)) {
+    // h('div', 1) 数字也当成文本
+    children = String(children)
+    shapeFlag |= ShapeFlags.TEXT_CHILDREN
   } else if (isArray(children)) {
-    shapeFlag = ShapeFlags.ARRAY_CHILDREN
+    // 数组里面可能有字符串、数字，统一转换成虚拟节点
+    children = children.map(normalizeVNode)
+    shapeFlag |= ShapeFlags.ARRAY_CHILDREN
+  } else if (isFunction(children)) {
+    // h(Comp, null, () => h('div')) 函数就是默认插槽
+    children = { default: children }
+    shapeFlag |= ShapeFlags.SLOTS_CHILDREN
+  } else if (isObject(children)) {
+    // h(Comp, null, { default: () => h('div'), header: props => h('h1') }) 对象就是插槽
+    shapeFlag |= ShapeFlags.SLOTS_CHILDREN
   }
   //  else if (isTeleport(type)) {
   //   // Teleport 组件
   //   shapeFlag = ShapeFlags.TELEPORT
-  // } else if (isObject(type)) {
-  //   // 有状态的组件
-  //   shapeFlag = ShapeFlags.STATEFUL_COMPONENT
-  // } else if (isFunction(type)) {
-  //   // 函数式组件
-  //   shapeFlag = ShapeFlags.FUNCTIONAL_COMPONENT
   // }
   //endregion
 
@@ -61,8 +93,88 @@ export function createVNode(type, props, children) {
     children,
     key: props?.key,
     el: null,
+    // Fragment 的结束锚点
+    anchor: null,
     shapeFlag,
+    // 组件的实例
+    component: null,
+    // 应用上下文，只有根组件的虚拟节点上有
+    appContext: null,
+    // 指令，withDirectives 添加
+    dirs: null,
   }
 
   return vnode
 }
+
+/**
+ * 复制一个虚拟节点，extraProps 会合并到新节点的 props 上
+ * 组件透传 attrs 的时候用，不能直接修改 render 返回的虚拟节点，它可能被缓存复用
+ * @param vnode 要复制的虚拟节点
+ * @param extraProps 要合并的 props
+ */
+export function cloneVNode(vnode, extraProps?) {
+  const props = extraProps ? mergeProps(vnode.props, extraProps) : vnode.props
+  return {
+    ...vnode,
+    props,
+    key: props?.key,
+  }
+}
+
+/**
+ * 合并多个 props
+ * 1. class 拼接
+ * 2. style 合并，后面的覆盖前面的
+ * 3. 事件都要执行，先执行前面的
+ * 4. 其他的后面覆盖前面
+ */
+export function mergeProps(...args) {
+  const ret = {}
+  for (const toMerge of args) {
+    if (!toMerge) continue
+    for (const key in toMerge) {
+      const existing = ret[key]
+      const incoming = toMerge[key]
+      if (key === 'class' && existing && incoming) {
+        ret[key] = `${existing} ${incoming}`
+      } else if (key === 'style' && isObject(existing) && isObject(incoming)) {
+        ret[key] = { ...existing, ...incoming }
+      } else if (
+        isOn(key) &&
+        isFunction(existing) &&
+        isFunction(incoming) &&
+        existing !== incoming
+      ) {
+        ret[key] = (...args) => {
+          existing(...args)
+          incoming(...args)
+        }
+      } else {
+        ret[key] = incoming
+      }
+    }
+  }
+  return ret
+}
+
+/**
+ * 把 children 中的每一项转换成虚拟节点
+ * 1. null undefined boolean => 注释节点，占个位置
+ * 2. 数组 => Fragment
+ * 3. 虚拟节点 => 原样返回
+ * 4. 字符串 数字 => 文本节点
+ * @param child
+ */
+export function normalizeVNode(child) {
+  if (child == null || typeof child === 'boolean') {
+    return createVNode(Comment, null, null)
+  }
+  if (isArray(child)) {
+    return createVNode(Fragment, null, child.slice())
+  }
+  if (isObject(child)) {
+    return child
+  }
+  return createVNode(Text, null, String(child))
+}
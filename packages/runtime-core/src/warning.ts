@@ -0,0 +1,44 @@
+/**
+ * 当前正在处理的组件实例栈，警告的时候通过它找到 app.config.warnHandler
+ */
+const stack = []
+
+export function pushWarningContext(instance) {
+  stack.push(instance)
+}
+
+export function popWarningContext() {
+  stack.pop()
+}
+
+/**
+ * 开发环境的警告，统一加上前缀，方便在控制台里找
+ * 配置了 app.config.warnHandler 就交给它处理
+ * @param msg 警告信息
+ * @param args 额外要打印的内容
+ */
+export function warn(msg: string, ...args) {
+  const instance = stack[stack.length - 1]
+  warnWithContext(instance?.appContext, instance, msg, args)
+}
+
+/**
+ * 应用级别的警告，比如重复安装插件、重复挂载
+ * 这时候没有正在处理的组件实例，直接用传入的应用上下文找 warnHandler
+ * @param appContext 应用上下文
+ */
+export function appWarn(appContext, msg: string, ...args) {
+  warnWithContext(appContext, null, msg, args)
+}
+
+function warnWithContext(appContext, instance, msg, args) {
+  const warnHandler = appContext?.config.warnHandler
+  if (warnHandler) {
+    warnHandler(
+      msg + args.map(arg => ` ${String(arg)}`).join(''),
+      instance?.proxy ?? null,
+    )
+    return
+  }
+  console.warn(`[Vue warn]: ${msg}`, ...args)
+}
@@ -1,5 +1,6 @@
 import { nodeOps } from './nodeOps'
-import { createRenderer } from '@vue/runtime-core'
+import { appWarn, createRenderer } from '@vue/runtime-core'
+import { isString } from '@vue/shared'
 import { patchProp } from './patchProp'
 
 export * from '@vue/runtime-core'
@@ -10,4 +11,38 @@ export function render(vnode, container) {
   renderer.render(vnode, container)
 }
 
+/**
+ * 创建应用
+ * 在 runtime-core 的基础上，让 mount 支持传入选择器
+ * @param rootComponent 根组件
+ * @param rootProps 根组件的 props
+ * @example createApp(App).mount('#app')
+ */
+export function createApp(rootComponent, rootProps = null) {
+  const app = renderer.createApp(rootComponent, rootProps)
+  const { mount } = app
+  app.mount = containerOrSelector => {
+    const container = normalizeContainer(containerOrSelector)
+    if (!container) {
+      // 还没有组件实例，用应用上下文找 app.config.warnHandler
+      appWarn(app._context, `没有找到挂载的容器 ${containerOrSelector}`)
+      return
+    }
+    // 挂载之前把容器里面原来的内容清空
+    container.innerHTML = ''
+    return mount(container)
+  }
+  return app
+}
+
+/**
+ * 传入的是选择器就查询出对应的元素
+ */
+function normalizeContainer(container) {
+  if (isString(container)) {
+    return nodeOps.querySelector(container)
+  }
+  return container
+}
+
 export { renderOptions }
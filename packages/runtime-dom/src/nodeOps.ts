@@ -27,6 +27,10 @@ export const nodeOps = {
   createText(text) {
     return document.createTextNode(text)
   },
+  // 创建注释节点
+  createComment(text) {
+    return document.createComment(text)
+  },
   // 设置 nodeValue
   setText(node, text) {
     return (node.nodeValue = text)
@@ -31,4 +31,66 @@ export const isArray = Array.isArray
 
 export function hasOwn(object, key) {
   return Object.hasOwn(object, key)
-}
\ No newline at end of file
+}
+
+/**
+ * 把短横线命名转换成驼峰命名
+ * @example camelize('foo-bar') => 'fooBar'
+ */
+export function camelize(str: string) {
+  return str.replace(/-(\w)/g, (_, c) => (c ? c.toUpperCase() : ''))
+}
+
+/**
+ * 首字母大写
+ * @example capitalize('foo') => 'Foo'
+ */
+export function capitalize(str: string) {
+  return str.charAt(0).toUpperCase() + str.slice(1)
+}
+
+/**
+ * 把事件名转换成 props 中的事件处理函数名
+ * @example toHandlerKey('click') => 'onClick'
+ */
+export function toHandlerKey(str: string) {
+  return str ? `on${capitalize(str)}` : ''
+}
+
+/**
+ * 依次执行数组中的函数，生命周期钩子用
+ */
+export function invokeArrayFns(fns, ...args) {
+  for (let i = 0; i < fns.length; i++) {
+    fns[i](...args)
+  }
+}
+
+/**
+ * 获取值的原始类型
+ * @example toRawType(new Map()) => 'Map'
+ */
+export function toRawType(value) {
+  return Object.prototype.toString.call(value).slice(8, -1)
+}
+
+export function isMap(value) {
+  return toRawType(value) === 'Map'
+}
+
+export function isSet(value) {
+  return toRawType(value) === 'Set'
+}
+
+/**
+ * 判断 key 是不是数组的索引
+ * @example isIntegerKey('1') => true
+ */
+export function isIntegerKey(key) {
+  return (
+    isString(key) &&
+    key !== 'NaN' &&
+    key[0] !== '-' &&
+    '' + parseInt(key, 10) === key
+  )
+}
@@ -0,0 +1,68 @@
+/**
+ * 打包生产环境
+ *
+ * node scripts/build.js --format esm
+ */
+import { parseArgs } from 'node:util'
+import { resolve, dirname } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import esbuild from 'esbuild'
+import { createRequire } from 'node:module'
+
+/**
+ * 解析命令行参数
+ */
+const {
+  values: { format },
+  positionals
+} = parseArgs({
+  allowPositionals: true,
+  options: {
+    format: {
+      type: 'string',
+      short: 'f',
+      default: 'esm'
+    }
+  }
+})
+
+// 创建 esm 的 __filename
+const __filename = fileURLToPath(import.meta.url)
+// 创建 esm 的 __dirname
+const __dirname = dirname(__filename)
+
+const require = createRequire(import.meta.url)
+const target = positionals.length ? positionals[0] : 'vue'
+
+const entry = resolve(__dirname, `../packages/${target}/src/index.ts`)
+
+/**
+ * 生产环境的文件名带上 prod，和开发环境的区分开
+ * cjs => vue.cjs.prod.js
+ * esm => vue.esm.prod.js
+ * @type {string}
+ */
+const outfile = resolve(
+  __dirname,
+  `../packages/${target}/dist/${target}.${format}.prod.js`
+)
+
+const pkg = require(`../packages/${target}/package.json`)
+
+esbuild
+  .build({
+    entryPoints: [entry], // 入口文件
+    outfile, // 输出文件
+    format, // 打包格式 cjs esm iife
+    platform: format === 'cjs' ? 'node' : 'browser', // 打包平台 node browser
+    bundle: true, // 把所有的依赖，打包到一个文件中
+    minify: true, // 压缩，if (false) 里的代码会被删掉
+    globalName: pkg.buildOptions.name,
+    define: {
+      // 生产环境，if (__DEV__) 中的调试代码（onTrack onTrigger、依赖关系图的名字等）都不会打包进来
+      __DEV__: 'false'
+    }
+  })
+  .then(() => {
+    console.log(`打包完成：${outfile}`)
+  })
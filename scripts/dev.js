@@ -52,7 +52,11 @@ esbuild
     outfile, // 输出文件
     format, // 打包格式 cjs esm iife    platform: format === 'cjs' ? 'node' : 'browser', // 打包平台 node browser    sourcemap: true, // 开启 sourcemap 方便调试
     bundle: true, // 把所有的依赖，打包到一个文件中
-    globalName: pkg.buildOptions.name
+    globalName: pkg.buildOptions.name,
+    define: {
+      // 开发环境，if (__DEV__) 中的调试代码会保留
+      __DEV__: 'true'
+    }
   })
   .then((ctx) => {
     // 监听文件变更重新打包